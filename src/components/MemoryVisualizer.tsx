@@ -4,14 +4,17 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Button } from '@/components/ui/button';
 import { ScatterChart, Scatter, XAxis, YAxis, ZAxis, Tooltip, Legend, ResponsiveContainer, LineChart, Line } from 'recharts';
 import { ZoomIn, ZoomOut, Minimize2, RotateCcw } from 'lucide-react';
-import { VectorStore, MemoryType } from '../lib/vectorStore';
+import { DEFAULT_NAMESPACE, EnhancedMemory, EnhancedVectorStore, MemoryType } from '../lib/vectorStore';
+import type { RelationType } from '../lib/memoryGraph';
 import { motion } from 'framer-motion';
 import { Canvas } from '@react-three/fiber';
 import { OrbitControls } from '@react-three/drei';
 
 interface MemoryVisualizerProps {
-  vectorStore: VectorStore;
+  vectorStore: EnhancedVectorStore;
   memoryType: MemoryType;
+  namespace?: string;                                 // Namespace shown first, defaults to the store's default namespace
+  onNamespaceChange?: (namespace: string) => void;    // Called when the user picks another namespace
 }
 
 interface ClusterPoint {
@@ -26,10 +29,17 @@ interface ClusterPoint {
   timeRange: { start: number; end: number };
   memoryCount: number;
   content: string;
-  references: Array<{ id: number; content: string }>;
+  references: Array<{ id: number; content: string; relation?: RelationType }>;
 }
 
-const MemoryVisualizer: React.FC<MemoryVisualizerProps> = ({ vectorStore, memoryType }) => {
+const MemoryVisualizer: React.FC<MemoryVisualizerProps> = ({
+  vectorStore,
+  memoryType,
+  namespace = DEFAULT_NAMESPACE,
+  onNamespaceChange
+}) => {
+  const [selectedNamespace, setSelectedNamespace] = useState<string>(namespace);
+  const [namespaces, setNamespaces] = useState<string[]>([DEFAULT_NAMESPACE]);
   const [selectedMemory, setSelectedMemory] = useState<ClusterPoint | null>(null);
   const [transitioningClusters, setTransitioningClusters] = useState<Set<number>>(new Set());
   const [selectedClusters, setSelectedClusters] = useState<Set<number>>(new Set());
@@ -41,6 +51,20 @@ const MemoryVisualizer: React.FC<MemoryVisualizerProps> = ({ vectorStore, memory
   const [zoomLevel, setZoomLevel] = useState<number>(1);
   const [dynamics, setDynamics] = useState<any>(null);
 
+  useEffect(() => {
+    setSelectedNamespace(namespace);
+  }, [namespace]);
+
+  // Resolved on use: the namespace may have been dropped since it was selected
+  const getStore = useCallback(() => vectorStore.namespace(selectedNamespace), [vectorStore, selectedNamespace]);
+
+  const handleNamespaceChange = (value: string) => {
+    setSelectedNamespace(value);
+    setSelectedCluster(null);
+    setSelectedClusters(new Set());
+    onNamespaceChange?.(value);
+  };
+
   const toggleClusterSelection = (clusterId: number) => {
     const newSelection = new Set(selectedClusters);
     if (newSelection.has(clusterId)) {
@@ -84,7 +108,7 @@ const MemoryVisualizer: React.FC<MemoryVisualizerProps> = ({ vectorStore, memory
   const handleMergeCluster = async (sourceId: number, targetId: number) => {
     try {
       setTransitioningClusters(new Set([sourceId, targetId]));
-      await vectorStore.mergeClusters(memoryType, sourceId, targetId);
+      await getStore().mergeClusters(memoryType, sourceId, targetId);
       await new Promise(resolve => setTimeout(resolve, 500));
       await fetchClusterData();
       setSelectedCluster(null);
@@ -98,7 +122,7 @@ const MemoryVisualizer: React.FC<MemoryVisualizerProps> = ({ vectorStore, memory
   const handleSplitCluster = async (clusterId: number) => {
     try {
       setTransitioningClusters(new Set([clusterId]));
-      await vectorStore.splitCluster(memoryType, clusterId);
+      await getStore().splitCluster(memoryType, clusterId);
       await new Promise(resolve => setTimeout(resolve, 500));
       await fetchClusterData();
       setSelectedCluster(null);
@@ -112,9 +136,10 @@ const MemoryVisualizer: React.FC<MemoryVisualizerProps> = ({ vectorStore, memory
   const handleDissolveCluster = async (clusterId: number) => {
     try {
       setTransitioningClusters(new Set([clusterId]));
-      const memories = await vectorStore.getClusterMemories(memoryType, clusterId);
-      for (const memoryId of memories) {
-        await vectorStore.reassignMemory(memoryId);
+      const store = getStore();
+      const memories = await store.getClusterMemories(memoryType, clusterId);
+      for (const memory of memories) {
+        await store.reassignMemory(memoryType, memory.id);
       }
       await new Promise(resolve => setTimeout(resolve, 500));
       await fetchClusterData();
@@ -128,41 +153,43 @@ const MemoryVisualizer: React.FC<MemoryVisualizerProps> = ({ vectorStore, memory
 
   const fetchClusterData = useCallback(async () => {
     try {
-      const clusters = await vectorStore.getAllClusters(memoryType);
-      const clusterDynamics = await vectorStore.getClusterDynamics(memoryType);
+      setNamespaces(vectorStore.listNamespaces());
+      const store = getStore();
+      const clusters = await store.getAllClusters(memoryType);
+      const clusterDynamics = await store.getClusterDynamics(memoryType);
       setDynamics(clusterDynamics);
 
-      const points: ClusterPoint[] = [];
-      for (const cluster of clusters) {
-        const memories = await vectorStore.getClusterMemories(memoryType, cluster.id);
-        const metadata = await vectorStore.getClusterMetadata(memoryType, cluster.id);
-        const stability = clusterDynamics.stability.find((s: any) => s.clusterId === cluster.id)?.score || 0;
-        const growthRate = clusterDynamics.growth.find((g: any) => g.clusterId === cluster.id)?.rate || 0;
-
-        memories.forEach((memory: any) => {
-          const vector = memory.vector;
-          points.push({
-            x: vector[0],
-            y: vector[1],
-            size: metadata.size,
-            cluster: cluster.id,
-            strength: memory.strength,
-            stability,
-            growthRate,
-            emotions: metadata.dominantEmotions,
-            timeRange: metadata.timeRange,
-            memoryCount: memories.length,
-            content: memory.content,
-            references: memory.references
-          });
-        });
-      }
-
-      setClusterData(points);
+      const points = await Promise.all(clusters.map(async ({ id, metadata }) => {
+        const memories: EnhancedMemory[] = await store.getClusterMemories(memoryType, id);
+        const neighbors = await Promise.all(memories.map(memory => store.getNeighbors(memoryType, memory.id)));
+        const stability = clusterDynamics.stability.find(s => s.clusterId === id)?.score || 0;
+        const growthRate = clusterDynamics.growth.find(g => g.clusterId === id)?.rate || 0;
+
+        return memories.map((memory, i): ClusterPoint => ({
+          x: memory.vector[0],
+          y: memory.vector[1],
+          size: metadata.size,
+          cluster: id,
+          strength: memory.strength,
+          stability,
+          growthRate,
+          emotions: metadata.dominantEmotions,
+          timeRange: metadata.timeRange,
+          memoryCount: memories.length,
+          content: memory.content,
+          references: neighbors[i].map(({ memory: related, edge }) => ({
+            id: related.id,
+            content: related.content,
+            relation: edge.relation
+          }))
+        }));
+      }));
+
+      setClusterData(points.flat());
     } catch (error) {
       console.error('Error fetching cluster data:', error);
     }
-  }, [vectorStore, memoryType]);
+  }, [vectorStore, getStore, memoryType]);
 
   useEffect(() => {
     fetchClusterData();
@@ -235,6 +262,17 @@ const MemoryVisualizer: React.FC<MemoryVisualizerProps> = ({ vectorStore, memory
             </SelectContent>
           </Select>
 
+          <Select onValueChange={handleNamespaceChange} value={selectedNamespace}>
+            <SelectTrigger className="w-40" aria-label="Namespace">
+              <SelectValue placeholder="Namespace" />
+            </SelectTrigger>
+            <SelectContent>
+              {namespaces.map(name => (
+                <SelectItem key={name} value={name}>{name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
           <div className="flex space-x-2">
             <Button 
               variant="outline" 
@@ -574,6 +612,9 @@ const MemoryVisualizer: React.FC<MemoryVisualizerProps> = ({ vectorStore, memory
                           key={ref.id}
                           className="p-2 bg-gray-50 rounded text-sm"
                         >
+                          {ref.relation && (
+                            <span className="mr-2 text-xs text-gray-500">{ref.relation}</span>
+                          )}
                           {ref.content.slice(0, 100)}...
                         </div>
                       ))}
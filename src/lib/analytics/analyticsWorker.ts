@@ -0,0 +1,42 @@
+// src/lib/analytics/analyticsWorker.ts
+// Worker entry for WorkerPool: runs per-memory analytics off the main thread during bulk ingest
+import { PredictiveAnalytics } from './predictiveAnalytics';
+import type { WorkerMessage, WorkerResponse } from '../workerPool';
+
+export const ANALYZE_MEMORY_TASK = 'analyze-memory';
+
+export interface MemoryAnalysis {
+    predictedRelevance: number;
+    aiGeneratedTags: string[];
+    semanticContext: string[];
+}
+
+// `memory` arrives serialized, with its vector as a plain array
+export async function analyzeMemory(analytics: PredictiveAnalytics, memory: any): Promise<MemoryAnalysis> {
+    const input = { ...memory, vector: Float32Array.from(memory.vector) };
+    return {
+        predictedRelevance: await analytics.predictRelevance(input),
+        aiGeneratedTags: await analytics.generateTags(input),
+        semanticContext: await analytics.analyzeContext(input)
+    };
+}
+
+export async function handleAnalyticsMessage(analytics: PredictiveAnalytics, message: WorkerMessage): Promise<WorkerResponse | null> {
+    if (message.type !== ANALYZE_MEMORY_TASK) return null; // 'init' and 'self-heal' need no reply
+    try {
+        return { taskId: message.taskId, result: await analyzeMemory(analytics, message.data.memory) };
+    } catch (error) {
+        return { taskId: message.taskId, error: error as Error };
+    }
+}
+
+declare const importScripts: unknown; // Only defined inside worker scopes
+
+if (typeof importScripts === 'function') {
+    const analytics = new PredictiveAnalytics();
+    const scope = self as unknown as { onmessage: (event: MessageEvent) => void; postMessage(response: WorkerResponse): void };
+    scope.onmessage = async (event: MessageEvent) => {
+        const response = await handleAnalyticsMessage(analytics, event.data);
+        if (response) scope.postMessage(response);
+    };
+}
@@ -1,5 +1,7 @@
 // src/lib/analytics/metricCalculator.ts
 
+import { Clock, systemClock } from '../clock';
+
 interface MetricConfig {
     timeWindow: number;
     samplingRate: number;
@@ -58,8 +60,10 @@ export class MetricCalculator {
     private metrics: Map<string, { values: number[]; timestamps: number[] }>;
     private lastCalculation: number;
     private dynamicThresholds: Map<string, { critical: number; warning: number; normal: number }>;
+    private clock: Clock;
 
-    constructor(config: Partial<MetricConfig> = {}) {
+    constructor(config: Partial<MetricConfig> = {}, clock: Clock = systemClock) {
+        this.clock = clock;
         this.config = {
             timeWindow: 24 * 60 * 60 * 1000, // 24 hours
             samplingRate: 60 * 1000, // 1 minute
@@ -75,7 +79,7 @@ export class MetricCalculator {
         };
 
         this.metrics = new Map();
-        this.lastCalculation = Date.now();
+        this.lastCalculation = this.clock.now();
         this.dynamicThresholds = new Map();
         this.initializeMetrics();
     }
@@ -220,21 +224,21 @@ export class MetricCalculator {
     }
 
     private calculateDecayRate(memory: any): number {
-        const age = Date.now() - memory.timestamp;
+        const age = this.clock.now() - memory.timestamp;
         const strengthLoss = 1 - (memory.strength || 1);
         return strengthLoss / (age / (24 * 60 * 60 * 1000)) || 0;
     }
 
     private calculateConsolidationRate(memories: any[]): number {
         const consolidations = memories.filter(m => m.consolidated).length;
-        const timeWindow = Date.now() - this.config.timeWindow;
+        const timeWindow = this.clock.now() - this.config.timeWindow;
         const recentMemories = memories.filter(m => m.timestamp > timeWindow);
         
         return recentMemories.length > 0 ? consolidations / recentMemories.length : 0;
     }
 
     private calculateAccessFrequency(memories: any[]): number {
-        const timeWindow = Date.now() - this.config.timeWindow;
+        const timeWindow = this.clock.now() - this.config.timeWindow;
         const recentAccesses = memories.reduce((sum, m) => 
             sum + (m.accessHistory || []).filter((time: number) => time > timeWindow).length, 0);
 
@@ -349,7 +353,7 @@ export class MetricCalculator {
     }
 
     private calculateOperationsRate(): number {
-        const now = Date.now();
+        const now = this.clock.now();
         const timeElapsed = (now - this.lastCalculation) / 1000; // seconds
         const operations = this.metrics.get('operationsCount')?.values || [0];
         const rate = operations[operations.length - 1] / timeElapsed || 0;
@@ -372,7 +376,7 @@ export class MetricCalculator {
 
     recordMetric(type: string, value: number): void {
         const metric = this.metrics.get(type) || { values: [], timestamps: [] };
-        const now = Date.now();
+        const now = this.clock.now();
         metric.values.push(value);
         metric.timestamps.push(now);
 
@@ -1,11 +1,16 @@
 // src/lib/analytics/predictiveAnalytics.ts
-import * as fs from 'fs'; // Assuming Node.js environment; adjust for browser if needed
+import { readVersioned, writeVersioned } from '../snapshotFormat';
+import type { MemoryGraph } from '../memoryGraph';
+import { Clock, systemClock } from '../clock';
+
+const MAX_FORECAST_STEPS = 90;
 
 interface PredictionConfig {
     relevanceThreshold: number;
     contextWindowSize: number;
     minConfidence: number;
     predictionHorizon: number;
+    forecastInterval?: number; // Spacing of forecast points across the horizon
     smoothingFactor?: number; // New: For forecasting
     lstmWindow?: number; // New: Window for LSTM-like pattern detection
 }
@@ -36,17 +41,21 @@ interface VisualizationData {
 
 export class PredictiveAnalytics {
     private config: PredictionConfig;
+    private clock: Clock;
     private modelCache: Map<string, any>;
     private lastAnalysis: Map<number, AnalysisResult>;
     private patternHistory: Map<string, any[]>;
     private lstmState: Map<string, { hidden: number[]; cell: number[] }>; // New: LSTM-like state
+    private relationshipGraph: MemoryGraph | null;
 
-    constructor(config: Partial<PredictionConfig> = {}) {
+    constructor(config: Partial<PredictionConfig> = {}, clock: Clock = systemClock) {
+        this.clock = clock;
         this.config = {
             relevanceThreshold: 0.6,
             contextWindowSize: 10,
             minConfidence: 0.7,
             predictionHorizon: 7 * 24 * 60 * 60 * 1000, // 7 days
+            forecastInterval: 24 * 60 * 60 * 1000, // 1 day
             smoothingFactor: 0.2, // New: Default smoothing factor
             lstmWindow: 5, // New: Default LSTM window size
             ...config
@@ -56,6 +65,12 @@ export class PredictiveAnalytics {
         this.lastAnalysis = new Map();
         this.patternHistory = new Map();
         this.lstmState = new Map();
+        this.relationshipGraph = null;
+    }
+
+    // Lets relationship features read stored graph edges instead of inline `references`
+    setRelationshipGraph(graph: MemoryGraph | null): void {
+        this.relationshipGraph = graph;
     }
 
     async predictRelevance(memory: any): Promise<number> {
@@ -299,7 +314,7 @@ export class PredictiveAnalytics {
     }
 
     private calculateRecencyScore(timestamp: number): number {
-        const age = Date.now() - timestamp;
+        const age = this.clock.now() - timestamp;
         return Math.max(0, 1 - (age / this.config.predictionHorizon));
     }
 
@@ -375,7 +390,7 @@ export class PredictiveAnalytics {
         else if (accessCount > 50) patterns.push('medium_frequency');
         else patterns.push('low_frequency');
 
-        const daysSinceAccess = (Date.now() - (memory.lastAccessed || Date.now())) / (24 * 60 * 60 * 1000);
+        const daysSinceAccess = (this.clock.now() - (memory.lastAccessed || this.clock.now())) / (24 * 60 * 60 * 1000);
         if (daysSinceAccess < 1) patterns.push('recently_accessed');
         else if (daysSinceAccess < 7) patterns.push('weekly_access');
         else if (daysSinceAccess < 30) patterns.push('monthly_access');
@@ -385,12 +400,17 @@ export class PredictiveAnalytics {
 
     private async analyzeRelationshipPatterns(memory: any): Promise<string[]> {
         const patterns = [];
-        if (!memory.references) return patterns;
+        if (!memory.references && !this.relationshipGraph) return patterns;
 
         const typeCount = new Map<string, number>();
-        memory.references.forEach((ref: any) => {
+        (memory.references || []).forEach((ref: any) => {
             if (ref.type) typeCount.set(ref.type, (typeCount.get(ref.type) || 0) + 1);
         });
+        if (this.relationshipGraph && memory.type) {
+            this.relationshipGraph.getEdges(memory.type, memory.id).forEach(edge => {
+                typeCount.set(edge.relation, (typeCount.get(edge.relation) || 0) + 1);
+            });
+        }
 
         typeCount.forEach((count, type) => {
             if (count > 5) patterns.push(`strong_${type}_connections`);
@@ -404,6 +424,9 @@ export class PredictiveAnalytics {
     }
 
     private async calculateNetworkDepth(memory: any, visited = new Set<number>()): Promise<number> {
+        if (this.relationshipGraph && memory.type) {
+            return this.relationshipGraph.getDepth(memory.type, memory.id, this.config.contextWindowSize);
+        }
         if (!memory.references || visited.has(memory.id)) return 0;
         
         visited.add(memory.id);
@@ -460,12 +483,12 @@ export class PredictiveAnalytics {
             patternHistory: Array.from(this.patternHistory.entries()),
             lstmState: Array.from(this.lstmState.entries())
         };
-        await fs.promises.writeFile(filepath, JSON.stringify(data));
+        await writeVersioned(filepath, 'analytics', data);
     }
 
     async load(filepath: string): Promise<void> {
         try {
-            const data = JSON.parse(await fs.promises.readFile(filepath, 'utf-8'));
+            const data = await readVersioned(filepath, 'analytics');
             this.config = data.config;
             this.lastAnalysis = new Map(data.lastAnalysis);
             this.patternHistory = new Map(data.patternHistory);
@@ -486,7 +509,7 @@ export class PredictiveAnalytics {
     }
 
     private calculateTemporalRelevance(memory: any): number {
-        const now = Date.now();
+        const now = this.clock.now();
         const age = now - memory.timestamp;
         const baseRelevance = Math.max(0, 1 - (age / this.config.predictionHorizon));
         const accessRecency = now - (memory.lastAccessed || now);
@@ -627,7 +650,13 @@ export class PredictiveAnalytics {
     // New: Forecast relevance over prediction horizon
     private forecastRelevance(scores: number[]): number[] {
         const smoothed = this.exponentialSmoothing(scores);
-        return smoothed.slice(-this.config.predictionHorizon!);
+        return smoothed.slice(-this.forecastSteps());
+    }
+
+    // The horizon is a duration in ms; forecasting steps once per interval, capped
+    private forecastSteps(): number {
+        const steps = Math.ceil(this.config.predictionHorizon / this.config.forecastInterval!);
+        return Number.isFinite(steps) ? Math.min(MAX_FORECAST_STEPS, Math.max(1, steps)) : MAX_FORECAST_STEPS;
     }
 
     // New: Exponential smoothing for forecasting
@@ -641,7 +670,8 @@ export class PredictiveAnalytics {
         }
 
         let lastValue = result[result.length - 1];
-        for (let i = 0; i < this.config.predictionHorizon!; i++) {
+        const steps = this.forecastSteps();
+        for (let i = 0; i < steps; i++) {
             lastValue = alpha * lastValue + (1 - alpha) * lastValue;
             result.push(lastValue);
         }
@@ -667,7 +697,7 @@ export class PredictiveAnalytics {
         if (anomalies.length === 0) return predictions;
 
         return predictions.map(p => {
-            const anomalyImpact = anomalies.some(a => Math.abs(Date.now() - a.timestamp) < this.config.predictionHorizon / 2) ? 0.9 : 1;
+            const anomalyImpact = anomalies.some(a => Math.abs(this.clock.now() - a.timestamp) < this.config.predictionHorizon / 2) ? 0.9 : 1;
             return {
                 ...p,
                 confidence: p.confidence * anomalyImpact,
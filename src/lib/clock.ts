@@ -0,0 +1,102 @@
+// src/lib/clock.ts
+
+export interface Clock {
+    now(): number;
+    // Calls `callback` every `interval` ms; returns a function that cancels it
+    setInterval(callback: () => void, interval: number): () => void;
+    // Calls `callback` once after `delay` ms; returns a function that cancels it
+    setTimeout(callback: () => void, delay: number): () => void;
+}
+
+// Wall-clock time and real timers. Intervals are unref'd: background housekeeping should never
+// keep a process alive on its own.
+export class SystemClock implements Clock {
+    now(): number {
+        return Date.now();
+    }
+
+    setInterval(callback: () => void, interval: number): () => void {
+        const timer = setInterval(callback, interval);
+        if (typeof timer === 'object' && 'unref' in timer) timer.unref();
+        return () => clearInterval(timer);
+    }
+
+    setTimeout(callback: () => void, delay: number): () => void {
+        const timer = setTimeout(callback, delay);
+        return () => clearTimeout(timer);
+    }
+}
+
+interface ManualTimer {
+    callback: () => void;
+    interval: number;
+    due: number;
+    repeat: boolean;
+}
+
+// Time that only moves when told to. advance() fires every timer that falls due on the way,
+// in time order, so months of scheduled work can be replayed deterministically.
+export class ManualClock implements Clock {
+    private time: number;
+    private timers: Set<ManualTimer>;
+
+    constructor(start: number = 0) {
+        this.time = start;
+        this.timers = new Set();
+    }
+
+    now(): number {
+        return this.time;
+    }
+
+    setInterval(callback: () => void, interval: number): () => void {
+        return this.schedule(callback, Math.max(1, interval), true);
+    }
+
+    setTimeout(callback: () => void, delay: number): () => void {
+        return this.schedule(callback, Math.max(0, delay), false);
+    }
+
+    // Moves time forward by `ms`, firing due timers; returns how many callbacks ran
+    advance(ms: number): number {
+        const target = this.time + ms;
+        let fired = 0;
+
+        for (;;) {
+            let next: ManualTimer | null = null;
+            for (const timer of this.timers) {
+                if (timer.due <= target && (!next || timer.due < next.due)) next = timer;
+            }
+            if (!next) break;
+
+            this.time = Math.max(this.time, next.due);
+            if (next.repeat) next.due += next.interval;
+            else this.timers.delete(next);
+            next.callback();
+            fired++;
+        }
+
+        // A callback may itself have advanced the clock past the target
+        this.time = Math.max(this.time, target);
+        return fired;
+    }
+
+    set(time: number): void {
+        if (time < this.time) throw new Error('ManualClock cannot move backwards');
+        this.advance(time - this.time);
+    }
+
+    get pendingTimers(): number {
+        return this.timers.size;
+    }
+
+    private schedule(callback: () => void, interval: number, repeat: boolean): () => void {
+        const timer: ManualTimer = { callback, interval, due: this.time + interval, repeat };
+        this.timers.add(timer);
+        return () => {
+            this.timers.delete(timer);
+        };
+    }
+}
+
+export const systemClock: Clock = new SystemClock();
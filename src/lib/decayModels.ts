@@ -0,0 +1,94 @@
+// src/lib/decayModels.ts
+import type { EnhancedMemory, MemoryType } from './vectorStore';
+
+export interface DecayConfig {
+    baseRate: number;
+    accessBoost: number;
+    importanceMultiplier: number;
+    minStrength: number;
+    adaptiveFactor?: number; // New: Self-adjusting decay
+    model: string;                                      // Decay model for types without an override
+    models: Partial<Record<MemoryType, string>>;        // Per-type model overrides
+}
+
+// A decay model maps a memory's current strength to its strength after `elapsed` more ms
+// without access. `sinceAccess` is the total time since the last access (>= elapsed), for
+// models whose curve depends on where on it the memory already is.
+export interface DecayModel {
+    readonly name: string;
+    decay(memory: EnhancedMemory, elapsed: number, sinceAccess: number, config: DecayConfig): number;
+}
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// Per-day decay rate shared by the built-in models: frequent access and importance slow decay
+function effectiveRate(memory: EnhancedMemory, config: DecayConfig): number {
+    const accessFactor = Math.exp(-memory.accessCount * config.accessBoost);
+    const importanceFactor = Math.max(memory.importance * config.importanceMultiplier, 0.01);
+    return memory.decayRate * accessFactor / importanceFactor;
+}
+
+// The original model: subtracts the rate per day elapsed since the last pass
+export class LinearDecay implements DecayModel {
+    readonly name = 'linear';
+
+    decay(memory: EnhancedMemory, elapsed: number, _sinceAccess: number, config: DecayConfig): number {
+        return memory.strength - effectiveRate(memory, config) * elapsed / DAY;
+    }
+}
+
+// Ebbinghaus forgetting curve: R = e^(-t/S) with stability S = 1 / rate days
+export class ExponentialDecay implements DecayModel {
+    readonly name = 'exponential';
+
+    decay(memory: EnhancedMemory, elapsed: number, _sinceAccess: number, config: DecayConfig): number {
+        return memory.strength * Math.exp(-effectiveRate(memory, config) * elapsed / DAY);
+    }
+}
+
+// Wickelgren power law: R = (1 + t/tau)^-beta. beta equals the exponential rate, so both curves
+// start with the same slope but the power law keeps a long tail of old memories.
+export class PowerLawDecay implements DecayModel {
+    readonly name = 'power-law';
+    private timeScale: number;
+
+    constructor(timeScale: number = DAY) {
+        this.timeScale = timeScale;
+    }
+
+    decay(memory: EnhancedMemory, elapsed: number, sinceAccess: number, config: DecayConfig): number {
+        const beta = effectiveRate(memory, config) * this.timeScale / DAY;
+        const before = 1 + (sinceAccess - elapsed) / this.timeScale;
+        const after = 1 + sinceAccess / this.timeScale;
+        return memory.strength * Math.pow(after / before, -beta);
+    }
+}
+
+// SM-2 style spaced repetition: each access is a successful review, so the inter-review interval
+// grows 1 day, 6 days, then by the easiness factor (1.3-2.5, from importance). Recall probability
+// falls to `retention` after one interval.
+export class SpacedRepetitionDecay implements DecayModel {
+    readonly name = 'spaced-repetition';
+    private retention: number;
+
+    constructor(retention: number = 0.9) {
+        this.retention = retention;
+    }
+
+    interval(memory: EnhancedMemory): number {
+        const easiness = Math.min(2.5, Math.max(1.3, 1.3 + 1.2 * memory.importance));
+        const reviews = memory.accessCount;
+        if (reviews <= 1) return DAY;
+        if (reviews === 2) return 6 * DAY;
+        return 6 * DAY * Math.pow(easiness, reviews - 2);
+    }
+
+    decay(memory: EnhancedMemory, elapsed: number): number {
+        return memory.strength * Math.pow(this.retention, elapsed / this.interval(memory));
+    }
+}
+
+export function createDefaultDecayModels(): Map<string, DecayModel> {
+    const models: DecayModel[] = [new LinearDecay(), new ExponentialDecay(), new PowerLawDecay(), new SpacedRepetitionDecay()];
+    return new Map(models.map(model => [model.name, model]));
+}
@@ -0,0 +1,109 @@
+// src/lib/embeddingProvider.ts
+
+export interface EmbeddingProvider {
+    readonly modelId: string;
+    readonly dimension: number;
+    embed(text: string): Promise<Float32Array>;
+    embedBatch(texts: string[]): Promise<Float32Array[]>;
+}
+
+interface LocalEmbeddingConfig {
+    ngramSize: number;        // Character n-gram length
+    wordWeight: number;       // Weight of whole-word features relative to n-grams
+    seed: number;             // Hash seed; changing it changes every embedding
+}
+
+// Offline embedder: hashes words and character n-grams into a fixed number of buckets
+// (the "hashing trick") with sublinear TF and optional IDF weights learned via fit().
+// The output depends only on the text, config and fitted corpus, so it is fully reproducible.
+export class LocalEmbeddingProvider implements EmbeddingProvider {
+    readonly dimension: number;
+    private config: LocalEmbeddingConfig;
+    private idf: Map<string, number>;
+
+    constructor(dimension: number, config: Partial<LocalEmbeddingConfig> = {}) {
+        this.dimension = dimension;
+        this.config = {
+            ngramSize: 3,
+            wordWeight: 2,
+            seed: 0x9747b28c,
+            ...config
+        };
+        this.idf = new Map();
+    }
+
+    get modelId(): string {
+        return `local-hash-${this.config.ngramSize}gram-${this.dimension}d-${this.config.seed.toString(16)}`;
+    }
+
+    // Learns IDF weights from a reference corpus; call before indexing so stored and query vectors agree
+    fit(documents: string[]): void {
+        const documentFrequency = new Map<string, number>();
+        for (const document of documents) {
+            for (const feature of new Set(this.extractFeatures(document).keys())) {
+                documentFrequency.set(feature, (documentFrequency.get(feature) || 0) + 1);
+            }
+        }
+
+        this.idf = new Map();
+        documentFrequency.forEach((df, feature) => {
+            this.idf.set(feature, Math.log((1 + documents.length) / (1 + df)) + 1);
+        });
+    }
+
+    async embed(text: string): Promise<Float32Array> {
+        const vector = new Float32Array(this.dimension);
+
+        this.extractFeatures(text).forEach(({ count, weight }, feature) => {
+            const hash = this.hash(feature);
+            const bucket = hash % this.dimension;
+            const sign = (hash & 0x80000000) === 0 ? 1 : -1;
+            const tf = 1 + Math.log(count);
+            vector[bucket] += sign * tf * weight * (this.idf.get(feature) ?? 1);
+        });
+
+        let norm = 0;
+        for (let i = 0; i < vector.length; i++) norm += vector[i] * vector[i];
+        norm = Math.sqrt(norm);
+        if (norm > 0) {
+            for (let i = 0; i < vector.length; i++) vector[i] /= norm;
+        }
+        return vector;
+    }
+
+    async embedBatch(texts: string[]): Promise<Float32Array[]> {
+        return Promise.all(texts.map(text => this.embed(text)));
+    }
+
+    private extractFeatures(text: string): Map<string, { count: number; weight: number }> {
+        const features = new Map<string, { count: number; weight: number }>();
+        const add = (feature: string, weight: number) => {
+            const existing = features.get(feature);
+            if (existing) existing.count++;
+            else features.set(feature, { count: 1, weight });
+        };
+
+        const words = text.toLowerCase().match(/[\p{L}\p{N}_]+/gu) || [];
+        for (const word of words) {
+            add(`w:${word}`, this.config.wordWeight);
+
+            const padded = `#${word}#`;
+            for (let i = 0; i + this.config.ngramSize <= padded.length; i++) {
+                add(`g:${padded.slice(i, i + this.config.ngramSize)}`, 1);
+            }
+        }
+        return features;
+    }
+
+    // FNV-1a, 32-bit
+    private hash(feature: string): number {
+        let hash = this.config.seed >>> 0;
+        for (let i = 0; i < feature.length; i++) {
+            hash ^= feature.charCodeAt(i);
+            hash = Math.imul(hash, 0x01000193) >>> 0;
+        }
+        return hash >>> 0;
+    }
+}
+
+export default LocalEmbeddingProvider;
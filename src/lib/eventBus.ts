@@ -0,0 +1,87 @@
+// src/lib/eventBus.ts
+
+export type EventHandler<T> = (payload: T) => void | Promise<void>;
+
+// Minimal typed pub/sub. A failing handler is logged and never interrupts the emitter or
+// the remaining handlers, so subscribers cannot break store operations.
+export class EventBus<Events extends Record<string, any>> {
+    private handlers: Map<keyof Events, Set<EventHandler<any>>>;
+    private onceWrappers: Map<keyof Events, Map<EventHandler<any>, EventHandler<any>>>;   // Original handler -> registered wrapper
+
+    constructor() {
+        this.handlers = new Map();
+        this.onceWrappers = new Map();
+    }
+
+    // Returns a function that removes the subscription
+    on<K extends keyof Events>(event: K, handler: EventHandler<Events[K]>): () => void {
+        let handlers = this.handlers.get(event);
+        if (!handlers) {
+            handlers = new Set();
+            this.handlers.set(event, handlers);
+        }
+        handlers.add(handler);
+        return () => this.off(event, handler);
+    }
+
+    // Like on(), but the subscription ends after one delivery. off() with the same handler also removes it.
+    once<K extends keyof Events>(event: K, handler: EventHandler<Events[K]>): () => void {
+        let wrappers = this.onceWrappers.get(event);
+        if (!wrappers) {
+            wrappers = new Map();
+            this.onceWrappers.set(event, wrappers);
+        }
+        if (!wrappers.has(handler)) {
+            const wrapper: EventHandler<Events[K]> = payload => {
+                this.off(event, handler);
+                return handler(payload);
+            };
+            wrappers.set(handler, wrapper);
+            this.on(event, wrapper);
+        }
+        return () => this.off(event, handler);
+    }
+
+    off<K extends keyof Events>(event: K, handler: EventHandler<Events[K]>): void {
+        const wrappers = this.onceWrappers.get(event);
+        const wrapper = wrappers?.get(handler);
+        if (wrapper) {
+            wrappers!.delete(handler);
+            if (wrappers!.size === 0) this.onceWrappers.delete(event);
+        }
+
+        const handlers = this.handlers.get(event);
+        if (!handlers) return;
+        handlers.delete(handler);
+        if (wrapper) handlers.delete(wrapper);
+        if (handlers.size === 0) this.handlers.delete(event);
+    }
+
+    emit<K extends keyof Events>(event: K, payload: Events[K]): void {
+        const handlers = this.handlers.get(event);
+        if (!handlers) return;
+
+        for (const handler of Array.from(handlers)) {
+            try {
+                const result = handler(payload);
+                if (result instanceof Promise) {
+                    result.catch(error => console.error(`Error in ${String(event)} handler:`, error));
+                }
+            } catch (error) {
+                console.error(`Error in ${String(event)} handler:`, error);
+            }
+        }
+    }
+
+    listenerCount(event?: keyof Events): number {
+        if (event !== undefined) return this.handlers.get(event)?.size || 0;
+        return Array.from(this.handlers.values()).reduce((sum, handlers) => sum + handlers.size, 0);
+    }
+
+    clear(): void {
+        this.handlers.clear();
+        this.onceWrappers.clear();
+    }
+}
+
+export default EventBus;
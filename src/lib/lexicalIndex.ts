@@ -0,0 +1,113 @@
+// src/lib/lexicalIndex.ts
+
+interface BM25Config {
+    k1: number;     // Term frequency saturation
+    b: number;      // Document length normalisation
+}
+
+// In-memory BM25 inverted index. Compound tokens such as `INC-4821` or `v2.3.1` are indexed
+// whole and by their parts, so exact identifiers match even when embeddings blur them.
+export class LexicalIndex {
+    private config: BM25Config;
+    private postings: Map<string, Map<number, number>>;
+    private documents: Map<number, Map<string, number>>;
+    private documentLengths: Map<number, number>;
+    private totalLength: number;
+
+    constructor(config: Partial<BM25Config> = {}) {
+        this.config = {
+            k1: 1.2,
+            b: 0.75,
+            ...config
+        };
+        this.postings = new Map();
+        this.documents = new Map();
+        this.documentLengths = new Map();
+        this.totalLength = 0;
+    }
+
+    add(id: number, text: string): void {
+        this.remove(id);
+
+        const tokens = LexicalIndex.tokenize(text);
+        const termFrequencies = new Map<string, number>();
+        tokens.forEach(token => termFrequencies.set(token, (termFrequencies.get(token) || 0) + 1));
+
+        termFrequencies.forEach((tf, term) => {
+            let posting = this.postings.get(term);
+            if (!posting) {
+                posting = new Map();
+                this.postings.set(term, posting);
+            }
+            posting.set(id, tf);
+        });
+
+        this.documents.set(id, termFrequencies);
+        this.documentLengths.set(id, tokens.length);
+        this.totalLength += tokens.length;
+    }
+
+    remove(id: number): boolean {
+        const termFrequencies = this.documents.get(id);
+        if (!termFrequencies) return false;
+
+        for (const term of termFrequencies.keys()) {
+            const posting = this.postings.get(term)!;
+            posting.delete(id);
+            if (posting.size === 0) this.postings.delete(term);
+        }
+
+        this.totalLength -= this.documentLengths.get(id) || 0;
+        this.documents.delete(id);
+        this.documentLengths.delete(id);
+        return true;
+    }
+
+    search(query: string, k: number, filter?: (id: number) => boolean): Array<{ id: number; score: number }> {
+        const documentCount = this.documents.size;
+        if (documentCount === 0) return [];
+
+        const avgLength = this.totalLength / documentCount || 1;
+        const scores = new Map<number, number>();
+
+        for (const term of new Set(LexicalIndex.tokenize(query))) {
+            const posting = this.postings.get(term);
+            if (!posting) continue;
+
+            const idf = Math.log(1 + (documentCount - posting.size + 0.5) / (posting.size + 0.5));
+            posting.forEach((tf, id) => {
+                if (filter && !filter(id)) return;
+                const length = this.documentLengths.get(id)!;
+                const norm = tf + this.config.k1 * (1 - this.config.b + this.config.b * length / avgLength);
+                scores.set(id, (scores.get(id) || 0) + idf * tf * (this.config.k1 + 1) / norm);
+            });
+        }
+
+        return Array.from(scores.entries())
+            .map(([id, score]) => ({ id, score }))
+            .sort((a, b) => b.score - a.score || a.id - b.id)
+            .slice(0, k);
+    }
+
+    has(id: number): boolean {
+        return this.documents.has(id);
+    }
+
+    get size(): number {
+        return this.documents.size;
+    }
+
+    static tokenize(text: string): string[] {
+        const tokens: string[] = [];
+        const compounds = text.toLowerCase().match(/[\p{L}\p{N}_]+(?:[-.:/][\p{L}\p{N}_]+)*/gu) || [];
+
+        for (const compound of compounds) {
+            tokens.push(compound);
+            const parts = compound.split(/[-.:/]/);
+            if (parts.length > 1) tokens.push(...parts);
+        }
+        return tokens;
+    }
+}
+
+export default LexicalIndex;
@@ -0,0 +1,157 @@
+// src/lib/maintenanceScheduler.ts
+
+import { Clock, systemClock } from './clock';
+
+export interface MaintenanceStep {
+    name: string;
+    run: () => Promise<Record<string, number> | void>;     // Optional counts, summed into the report
+}
+
+export interface MaintenanceProgress {
+    step: string;
+    index: number;      // Position of the step in the run, from 0
+    total: number;
+    status: 'started' | 'completed' | 'failed';
+}
+
+export interface MaintenanceReport {
+    startedAt: number;
+    duration: number;
+    steps: Array<{ name: string; duration: number }>;   // Steps that completed, in order
+    counts: Record<string, number>;
+    error?: Error;                                       // Set when a step failed; later steps were skipped
+}
+
+interface SchedulerConfig {
+    interval: number;           // Milliseconds between trigger checks
+}
+
+interface SchedulerHooks {
+    shouldRun?: () => Promise<boolean>;                 // Checked on every tick; runNow() skips it
+    onProgress?: (progress: MaintenanceProgress) => void;
+    onComplete?: (report: MaintenanceReport) => void;
+}
+
+// Runs maintenance steps in order on a timer or on demand. Only one run is ever in flight:
+// runNow() during a run joins it instead of starting another, and ticks during a run are skipped.
+export class MaintenanceScheduler {
+    private steps: MaintenanceStep[];
+    private config: SchedulerConfig;
+    private hooks: SchedulerHooks;
+    private clock: Clock;
+    private cancelTimer: (() => void) | null;
+    private current: Promise<MaintenanceReport> | null;
+    private currentStep: string | null;
+    private lastReport: MaintenanceReport | null;
+    private disposed: boolean;
+
+    constructor(steps: MaintenanceStep[], config: Partial<SchedulerConfig> = {}, hooks: SchedulerHooks = {}, clock: Clock = systemClock) {
+        this.steps = steps;
+        this.config = {
+            interval: 60 * 60 * 1000,
+            ...config
+        };
+        this.hooks = hooks;
+        this.clock = clock;
+        this.cancelTimer = null;
+        this.current = null;
+        this.currentStep = null;
+        this.lastReport = null;
+        this.disposed = false;
+    }
+
+    get interval(): number {
+        return this.config.interval;
+    }
+
+    start(): void {
+        if (this.disposed) throw new Error('Maintenance scheduler has been disposed');
+        if (this.cancelTimer) return;
+        this.cancelTimer = this.clock.setInterval(() => this.tick(), this.config.interval);
+    }
+
+    stop(): void {
+        if (!this.cancelTimer) return;
+        this.cancelTimer();
+        this.cancelTimer = null;
+    }
+
+    runNow(): Promise<MaintenanceReport> {
+        if (this.disposed) return Promise.reject(new Error('Maintenance scheduler has been disposed'));
+        if (!this.current) {
+            this.current = this.run().finally(() => {
+                this.current = null;
+            });
+        }
+        return this.current;
+    }
+
+    // Stops the timer and waits for an in-flight run; the scheduler cannot be restarted
+    async dispose(): Promise<void> {
+        this.stop();
+        this.disposed = true;
+        if (this.current) await this.current;
+    }
+
+    getStatus(): { scheduled: boolean; running: boolean; currentStep: string | null; lastReport: MaintenanceReport | null } {
+        return {
+            scheduled: this.cancelTimer !== null,
+            running: this.current !== null,
+            currentStep: this.currentStep,
+            lastReport: this.lastReport
+        };
+    }
+
+    private async tick(): Promise<void> {
+        if (this.current || this.disposed) return;
+        try {
+            if (this.hooks.shouldRun && !await this.hooks.shouldRun()) return;
+            await this.runNow();
+        } catch (error) {
+            console.error('Maintenance error:', error);
+        }
+    }
+
+    private async run(): Promise<MaintenanceReport> {
+        const startedAt = this.clock.now();
+        const report: MaintenanceReport = { startedAt, duration: 0, steps: [], counts: {} };
+
+        for (let index = 0; index < this.steps.length; index++) {
+            const step = this.steps[index];
+            const stepStartedAt = this.clock.now();
+            this.currentStep = step.name;
+            this.reportProgress({ step: step.name, index, total: this.steps.length, status: 'started' });
+
+            try {
+                const counts = await step.run();
+                for (const [key, value] of Object.entries(counts || {})) {
+                    report.counts[key] = (report.counts[key] || 0) + value;
+                }
+            } catch (error) {
+                console.error('Maintenance error:', error);
+                report.error = error as Error;
+                this.reportProgress({ step: step.name, index, total: this.steps.length, status: 'failed' });
+                break;
+            }
+
+            report.steps.push({ name: step.name, duration: this.clock.now() - stepStartedAt });
+            this.reportProgress({ step: step.name, index, total: this.steps.length, status: 'completed' });
+        }
+
+        this.currentStep = null;
+        report.duration = this.clock.now() - startedAt;
+        this.lastReport = report;
+        if (!report.error) this.hooks.onComplete?.(report);
+        return report;
+    }
+
+    private reportProgress(progress: MaintenanceProgress): void {
+        try {
+            this.hooks.onProgress?.(progress);
+        } catch (error) {
+            console.error('Error reporting maintenance progress:', error);
+        }
+    }
+}
+
+export default MaintenanceScheduler;
@@ -0,0 +1,109 @@
+// src/lib/memoryArchive.ts
+import { readVersionedIfPresent, writeVersioned } from './snapshotFormat';
+import type { EnhancedMemory, MemoryType } from './vectorStore';
+import { Clock, systemClock } from './clock';
+import { cosineSimilarity } from './vectorMath';
+
+export type ArchiveReason = 'decayed' | 'merged';
+
+export interface ArchivedMemory {
+    memory: EnhancedMemory;
+    archivedAt: number;
+    reason: ArchiveReason;
+}
+
+// Cold tier for memories removed from the active HNSW indexes. Archived memories keep
+// their vectors and metadata, so they stay searchable (brute force) and can be restored.
+export class MemoryArchive {
+    private entries: Map<MemoryType, Map<number, ArchivedMemory>>;
+    private clock: Clock;
+
+    constructor(clock: Clock = systemClock) {
+        this.clock = clock;
+        this.entries = new Map();
+    }
+
+    add(memory: EnhancedMemory, reason: ArchiveReason): ArchivedMemory {
+        let table = this.entries.get(memory.type);
+        if (!table) {
+            table = new Map();
+            this.entries.set(memory.type, table);
+        }
+
+        const entry: ArchivedMemory = { memory, archivedAt: this.clock.now(), reason };
+        table.set(memory.id, entry);
+        return entry;
+    }
+
+    get(type: MemoryType, id: number): ArchivedMemory | undefined {
+        return this.entries.get(type)?.get(id);
+    }
+
+    remove(type: MemoryType, id: number): ArchivedMemory | undefined {
+        const entry = this.entries.get(type)?.get(id);
+        if (entry) this.entries.get(type)!.delete(id);
+        return entry;
+    }
+
+    list(type?: MemoryType): ArchivedMemory[] {
+        const tables = type ? [this.entries.get(type)] : Array.from(this.entries.values());
+        return tables
+            .flatMap(table => Array.from(table?.values() || []))
+            .sort((a, b) => b.archivedAt - a.archivedAt);
+    }
+
+    search(
+        query: Float32Array,
+        type: MemoryType,
+        k: number,
+        threshold: number
+    ): Array<{ memoryId: number; similarity: number }> {
+        return Array.from(this.entries.get(type)?.values() || [])
+            .map(entry => ({
+                memoryId: entry.memory.id,
+                similarity: cosineSimilarity(query, entry.memory.vector)
+            }))
+            .filter(r => r.similarity >= threshold)
+            .sort((a, b) => b.similarity - a.similarity)
+            .slice(0, k);
+    }
+
+    size(type?: MemoryType): number {
+        if (type) return this.entries.get(type)?.size || 0;
+        return Array.from(this.entries.values()).reduce((sum, table) => sum + table.size, 0);
+    }
+
+    async save(filepath: string): Promise<void> {
+        const data = this.list().map(entry => ({
+            ...entry,
+            memory: {
+                ...entry.memory,
+                vector: Array.from(entry.memory.vector),
+                neuralWeights: entry.memory.neuralWeights ? Array.from(entry.memory.neuralWeights) : undefined
+            }
+        }));
+        await writeVersioned(filepath, 'archive', data);
+    }
+
+    async load(filepath: string): Promise<void> {
+        let data: any[] | null;
+        try {
+            data = await readVersionedIfPresent(filepath, 'archive');
+        } catch (error) {
+            console.error('Error loading memory archive:', error);
+            throw error;
+        }
+
+        this.entries = new Map();
+        for (const entry of data ?? []) {
+            const memory: EnhancedMemory = {
+                ...entry.memory,
+                vector: Float32Array.from(entry.memory.vector),
+                neuralWeights: entry.memory.neuralWeights ? Float32Array.from(entry.memory.neuralWeights) : undefined
+            };
+            this.add(memory, entry.reason).archivedAt = entry.archivedAt;
+        }
+    }
+}
+
+export default MemoryArchive;
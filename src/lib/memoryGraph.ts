@@ -0,0 +1,255 @@
+// src/lib/memoryGraph.ts
+import { readVersionedIfPresent, writeVersioned } from './snapshotFormat';
+import type { MemoryType } from './vectorStore';
+import { Clock, systemClock } from './clock';
+
+export type RelationType = 'similar-to' | 'caused-by' | 'follows' | 'contradicts' | 'merged-from';
+
+export interface MemoryEdge {
+    source: number;
+    target: number;
+    relation: RelationType;
+    weight: number;
+    createdAt: number;
+}
+
+export interface TraversalOptions {
+    relations?: RelationType[];               // Only follow these edge types
+    direction?: 'out' | 'in' | 'both';        // Defaults to both
+}
+
+interface AdjacencyTable {
+    outgoing: Map<number, MemoryEdge[]>;
+    incoming: Map<number, MemoryEdge[]>;
+}
+
+// Directed, typed edges between memories of the same MemoryType. Traversals follow edges in
+// both directions by default, so "A follows B" also connects B to A for paths and subgraphs.
+export class MemoryGraph {
+    private tables: Map<MemoryType, AdjacencyTable>;
+    private clock: Clock;
+
+    constructor(clock: Clock = systemClock) {
+        this.clock = clock;
+        this.tables = new Map();
+    }
+
+    // Adding an existing (source, target, relation) edge replaces its weight; self-loops are ignored
+    addEdge(type: MemoryType, source: number, target: number, relation: RelationType, weight: number = 1): MemoryEdge | null {
+        if (source === target) return null;
+        const table = this.getTable(type);
+
+        const existing = (table.outgoing.get(source) || []).find(e => e.target === target && e.relation === relation);
+        if (existing) {
+            existing.weight = weight;
+            return existing;
+        }
+
+        const edge: MemoryEdge = { source, target, relation, weight, createdAt: this.clock.now() };
+        this.link(table.outgoing, source, edge);
+        this.link(table.incoming, target, edge);
+        return edge;
+    }
+
+    // Removes edges touching `id`, optionally restricted to one relation and direction
+    removeEdges(type: MemoryType, id: number, relation?: RelationType, direction: 'out' | 'in' | 'both' = 'both'): number {
+        const table = this.tables.get(type);
+        if (!table) return 0;
+
+        const doomed = this.collectEdges(table, id, direction)
+            .filter(edge => !relation || edge.relation === relation);
+        for (const edge of doomed) {
+            this.unlink(table.outgoing, edge.source, edge);
+            this.unlink(table.incoming, edge.target, edge);
+        }
+        return doomed.length;
+    }
+
+    removeEdge(type: MemoryType, source: number, target: number, relation: RelationType): boolean {
+        const table = this.tables.get(type);
+        const edge = table?.outgoing.get(source)?.find(e => e.target === target && e.relation === relation);
+        if (!edge) return false;
+        this.unlink(table!.outgoing, source, edge);
+        this.unlink(table!.incoming, target, edge);
+        return true;
+    }
+
+    removeNode(type: MemoryType, id: number): number {
+        return this.removeEdges(type, id);
+    }
+
+    getEdges(type: MemoryType, id: number, options: TraversalOptions = {}): MemoryEdge[] {
+        const table = this.tables.get(type);
+        if (!table) return [];
+        return this.collectEdges(table, id, options.direction || 'both')
+            .filter(edge => !options.relations || options.relations.includes(edge.relation));
+    }
+
+    getNeighbors(type: MemoryType, id: number, options: TraversalOptions = {}): Array<{ id: number; edge: MemoryEdge }> {
+        return this.getEdges(type, id, options)
+            .map(edge => ({ id: edge.source === id ? edge.target : edge.source, edge }))
+            .sort((a, b) => b.edge.weight - a.edge.weight || a.id - b.id);
+    }
+
+    // Shortest path by hop count (BFS); returns the edges walked, [] when from === to, null when unreachable
+    getPath(
+        type: MemoryType,
+        from: number,
+        to: number,
+        options: TraversalOptions & { maxDepth?: number } = {}
+    ): MemoryEdge[] | null {
+        if (from === to) return [];
+
+        const maxDepth = options.maxDepth ?? Infinity;
+        const via = new Map<number, MemoryEdge>();
+        const visited = new Set([from]);
+        let frontier = [from];
+
+        for (let depth = 0; frontier.length > 0 && depth < maxDepth; depth++) {
+            const next: number[] = [];
+            for (const id of frontier) {
+                for (const { id: neighbor, edge } of this.getNeighbors(type, id, options)) {
+                    if (visited.has(neighbor)) continue;
+                    visited.add(neighbor);
+                    via.set(neighbor, edge);
+                    if (neighbor === to) return this.tracePath(via, from, to);
+                    next.push(neighbor);
+                }
+            }
+            frontier = next;
+        }
+        return null;
+    }
+
+    getSubgraph(
+        type: MemoryType,
+        id: number,
+        depth: number = 1,
+        options: TraversalOptions = {}
+    ): { nodes: number[]; edges: MemoryEdge[] } {
+        const nodes = new Set([id]);
+        const edges = new Set<MemoryEdge>();
+        let frontier = [id];
+
+        for (let level = 0; level < depth && frontier.length > 0; level++) {
+            const next: number[] = [];
+            for (const current of frontier) {
+                for (const { id: neighbor, edge } of this.getNeighbors(type, current, options)) {
+                    edges.add(edge);
+                    if (nodes.has(neighbor)) continue;
+                    nodes.add(neighbor);
+                    next.push(neighbor);
+                }
+            }
+            frontier = next;
+        }
+
+        // Edges between nodes on the outermost level are part of the induced subgraph too
+        for (const current of frontier) {
+            for (const { id: neighbor, edge } of this.getNeighbors(type, current, options)) {
+                if (nodes.has(neighbor)) edges.add(edge);
+            }
+        }
+
+        return { nodes: Array.from(nodes), edges: Array.from(edges) };
+    }
+
+    // Number of hops to the furthest memory reachable from `id`
+    getDepth(type: MemoryType, id: number, maxDepth: number = Infinity): number {
+        const visited = new Set([id]);
+        let frontier = [id];
+        let depth = 0;
+
+        while (frontier.length > 0 && depth < maxDepth) {
+            const next: number[] = [];
+            for (const current of frontier) {
+                for (const { id: neighbor } of this.getNeighbors(type, current)) {
+                    if (visited.has(neighbor)) continue;
+                    visited.add(neighbor);
+                    next.push(neighbor);
+                }
+            }
+            if (next.length === 0) break;
+            frontier = next;
+            depth++;
+        }
+        return depth;
+    }
+
+    size(type?: MemoryType): number {
+        const tables = type ? [this.tables.get(type)] : Array.from(this.tables.values());
+        return tables.reduce((sum, table) => {
+            if (!table) return sum;
+            return sum + Array.from(table.outgoing.values()).reduce((count, edges) => count + edges.length, 0);
+        }, 0);
+    }
+
+    async save(filepath: string): Promise<void> {
+        const data = Array.from(this.tables.entries()).map(([type, table]) => ({
+            type,
+            edges: Array.from(table.outgoing.values()).flat()
+        }));
+        await writeVersioned(filepath, 'graph', data);
+    }
+
+    async load(filepath: string): Promise<void> {
+        let data: Array<{ type: MemoryType; edges: MemoryEdge[] }> | null;
+        try {
+            data = await readVersionedIfPresent(filepath, 'graph');
+        } catch (error) {
+            console.error('Error loading memory graph:', error);
+            throw error;
+        }
+
+        this.tables = new Map();
+        for (const { type, edges } of data ?? []) {
+            const table = this.getTable(type);
+            for (const edge of edges) {
+                this.link(table.outgoing, edge.source, edge);
+                this.link(table.incoming, edge.target, edge);
+            }
+        }
+    }
+
+    private getTable(type: MemoryType): AdjacencyTable {
+        let table = this.tables.get(type);
+        if (!table) {
+            table = { outgoing: new Map(), incoming: new Map() };
+            this.tables.set(type, table);
+        }
+        return table;
+    }
+
+    private collectEdges(table: AdjacencyTable, id: number, direction: 'out' | 'in' | 'both'): MemoryEdge[] {
+        const edges: MemoryEdge[] = [];
+        if (direction !== 'in') edges.push(...(table.outgoing.get(id) || []));
+        if (direction !== 'out') edges.push(...(table.incoming.get(id) || []));
+        return edges;
+    }
+
+    private link(adjacency: Map<number, MemoryEdge[]>, id: number, edge: MemoryEdge): void {
+        const edges = adjacency.get(id);
+        if (edges) edges.push(edge);
+        else adjacency.set(id, [edge]);
+    }
+
+    private unlink(adjacency: Map<number, MemoryEdge[]>, id: number, edge: MemoryEdge): void {
+        const edges = adjacency.get(id);
+        if (!edges) return;
+        const remaining = edges.filter(e => e !== edge);
+        if (remaining.length > 0) adjacency.set(id, remaining);
+        else adjacency.delete(id);
+    }
+
+    private tracePath(via: Map<number, MemoryEdge>, from: number, to: number): MemoryEdge[] {
+        const path: MemoryEdge[] = [];
+        for (let current = to; current !== from;) {
+            const edge = via.get(current)!;
+            path.unshift(edge);
+            current = edge.source === current ? edge.target : edge.source;
+        }
+        return path;
+    }
+}
+
+export default MemoryGraph;
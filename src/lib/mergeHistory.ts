@@ -0,0 +1,77 @@
+// src/lib/mergeHistory.ts
+import { readVersionedIfPresent, writeVersioned } from './snapshotFormat';
+import type { MemoryType } from './vectorStore';
+
+export interface MergeSource {
+    id: number;
+    content: string;
+    similarity: number;     // Similarity to the primary memory when the group was formed
+}
+
+export interface MergeRecord {
+    memoryId: number;
+    type: MemoryType;
+    mergedAt: number;
+    sources: MergeSource[];
+    original: any;          // Serialized primary memory as it was before the merge
+}
+
+// Provenance of consolidation merges, kept per merged memory (oldest first) so merges can be
+// inspected and undone. Source memories themselves live in the archive.
+export class MergeHistory {
+    private records: Map<MemoryType, Map<number, MergeRecord[]>>;
+
+    constructor() {
+        this.records = new Map();
+    }
+
+    add(record: MergeRecord): void {
+        let table = this.records.get(record.type);
+        if (!table) {
+            table = new Map();
+            this.records.set(record.type, table);
+        }
+        const history = table.get(record.memoryId);
+        if (history) history.push(record);
+        else table.set(record.memoryId, [record]);
+    }
+
+    get(type: MemoryType, id: number): MergeRecord[] {
+        return this.records.get(type)?.get(id) || [];
+    }
+
+    // Removes and returns the most recent merge into `id`
+    pop(type: MemoryType, id: number): MergeRecord | undefined {
+        const table = this.records.get(type);
+        const history = table?.get(id);
+        if (!history) return undefined;
+
+        const record = history.pop();
+        if (history.length === 0) table!.delete(id);
+        return record;
+    }
+
+    remove(type: MemoryType, id: number): boolean {
+        return this.records.get(type)?.delete(id) || false;
+    }
+
+    async save(filepath: string): Promise<void> {
+        const data = Array.from(this.records.values()).flatMap(table => Array.from(table.values()).flat());
+        await writeVersioned(filepath, 'merge-history', data);
+    }
+
+    async load(filepath: string): Promise<void> {
+        let data: MergeRecord[] | null;
+        try {
+            data = await readVersionedIfPresent(filepath, 'merge-history');
+        } catch (error) {
+            console.error('Error loading merge history:', error);
+            throw error;
+        }
+
+        this.records = new Map();
+        for (const record of data ?? []) this.add(record);
+    }
+}
+
+export default MergeHistory;
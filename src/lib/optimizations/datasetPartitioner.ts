@@ -1,4 +1,6 @@
 // src/lib/optimizations/datasetPartitioner.ts
+import { readVersioned, writeVersioned } from '../snapshotFormat';
+import { Clock, systemClock } from '../clock';
 
 interface Partition {
     id: string;
@@ -20,8 +22,9 @@ export class DatasetPartitioner {
     private partitions: Map<string, Partition>;
     private config: PartitionConfig;
     private dimensionality: number;
+    private clock: Clock;
 
-    constructor(config: Partial<PartitionConfig> = {}) {
+    constructor(config: Partial<PartitionConfig> = {}, clock: Clock = systemClock) {
         this.partitions = new Map();
         this.config = {
             maxPartitionSize: 10000,
@@ -31,6 +34,7 @@ export class DatasetPartitioner {
             ...config
         };
         this.dimensionality = 768; // Default dimensionality
+        this.clock = clock;
     }
 
     async getOptimalPartition(memory: any): Promise<string> {
@@ -52,19 +56,23 @@ export class DatasetPartitioner {
         // Create new partition if no suitable one found
         if (!bestPartition) {
             bestPartition = await this.createNewPartition(memory);
+        } else {
+            const partition = this.partitions.get(bestPartition)!;
+            partition.members.add(memory.id);
+            partition.lastUpdated = this.clock.now();
         }
 
         return bestPartition;
     }
 
     private async createNewPartition(memory: any): Promise<string> {
-        const id = `partition_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+        const id = `partition_${this.clock.now()}_${Math.random().toString(36).substr(2, 9)}`;
         const partition: Partition = {
             id,
             centroid: memory.vector.slice(),
             members: new Set([memory.id]),
-            createdAt: Date.now(),
-            lastUpdated: Date.now(),
+            createdAt: this.clock.now(),
+            lastUpdated: this.clock.now(),
             memoryType: memory.type
         };
 
@@ -72,8 +80,9 @@ export class DatasetPartitioner {
         return id;
     }
 
-    async rebalancePartitions(store: any): Promise<void> {
-        const partitionsToRebalance = this.findImbalancedPartitions();
+    async rebalancePartitions(store: any, type?: string): Promise<void> {
+        const partitionsToRebalance = this.findImbalancedPartitions()
+            .filter(p => !type || p.memoryType === type);
         if (partitionsToRebalance.length === 0) return;
 
         for (const partition of partitionsToRebalance) {
@@ -156,11 +165,11 @@ export class DatasetPartitioner {
         const centroid = this.calculateCentroid(vectors);
 
         const newPartition: Partition = {
-            id: `merged_${Date.now()}`,
+            id: `merged_${this.clock.now()}_${Math.random().toString(36).substr(2, 9)}`,
             centroid,
             members: mergedMembers,
-            createdAt: Date.now(),
-            lastUpdated: Date.now(),
+            createdAt: this.clock.now(),
+            lastUpdated: this.clock.now(),
             memoryType: p1.memoryType
         };
 
@@ -190,6 +199,28 @@ export class DatasetPartitioner {
         return relevant;
     }
 
+    hasMember(partitionId: string, memoryId: number): boolean {
+        return this.partitions.get(partitionId)?.members.has(memoryId) ?? false;
+    }
+
+    removeMember(memoryId: number, type: string): void {
+        for (const partition of this.partitions.values()) {
+            if (partition.memoryType === type && partition.members.delete(memoryId)) {
+                partition.lastUpdated = this.clock.now();
+            }
+        }
+    }
+
+    getPartitionStats(type: string): { id: string; size: number; density: number }[] {
+        return Array.from(this.partitions.values())
+            .filter(p => p.memoryType === type)
+            .map(p => ({
+                id: p.id,
+                size: p.members.size,
+                density: p.members.size / this.config.maxPartitionSize
+            }));
+    }
+
     private calculateSimilarity(vec1: Float32Array, vec2: Float32Array): number {
         let dotProduct = 0;
         let norm1 = 0;
@@ -268,17 +299,25 @@ export class DatasetPartitioner {
 
     async save(filepath: string): Promise<void> {
         const data = {
-            partitions: Array.from(this.partitions.entries()),
+            partitions: Array.from(this.partitions.entries()).map(([id, partition]) => [
+                id,
+                { ...partition, centroid: Array.from(partition.centroid), members: Array.from(partition.members) }
+            ]),
             config: this.config,
             dimensionality: this.dimensionality
         };
-        await fs.promises.writeFile(filepath, JSON.stringify(data));
+        await writeVersioned(filepath, 'partitioner', data);
     }
 
     async load(filepath: string): Promise<void> {
         try {
-            const data = JSON.parse(await fs.promises.readFile(filepath, 'utf-8'));
-            this.partitions = new Map(data.partitions);
+            const data = await readVersioned(filepath, 'partitioner');
+            this.partitions = new Map(
+                (data.partitions as [string, any][]).map(([id, partition]) => [
+                    id,
+                    { ...partition, centroid: Float32Array.from(partition.centroid), members: new Set(partition.members) }
+                ])
+            );
             this.config = data.config;
             this.dimensionality = data.dimensionality;
         } catch (error) {
@@ -292,11 +331,11 @@ export class DatasetPartitioner {
         const centroid = this.calculateCentroid(vectors);
         
         const newPartition: Partition = {
-            id: `partition_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+            id: `partition_${this.clock.now()}_${Math.random().toString(36).substr(2, 9)}`,
             centroid,
             members: new Set(members),
-            createdAt: Date.now(),
-            lastUpdated: Date.now(),
+            createdAt: this.clock.now(),
+            lastUpdated: this.clock.now(),
             memoryType: store.getMemoryType(members[0])
         };
 
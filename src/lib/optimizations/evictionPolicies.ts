@@ -0,0 +1,318 @@
+// src/lib/optimizations/evictionPolicies.ts
+
+export type EvictionPolicyName = 'lru' | 'lfu' | 'arc' | 'w-tinylfu';
+
+// Decides which cached key to drop next. The cache reports every hit, miss, insert and removal;
+// `capacity` is the entry count the policy sizes its internal segments for.
+export interface EvictionPolicy {
+    readonly name: string;
+    recordHit(key: string): void;
+    recordMiss(key: string): void;
+    recordInsert(key: string): void;
+    recordRemoval(key: string, evicted: boolean): void;  // evicted: chosen by selectVictim rather than deleted or expired
+    selectVictim(incoming?: string): string | undefined;
+    clear(): void;
+}
+
+// Moves `key` to the most recently used end of an insertion-ordered set
+function touch(set: Set<string>, key: string): void {
+    set.delete(key);
+    set.add(key);
+}
+
+function oldest(set: Set<string>): string | undefined {
+    return set.values().next().value;
+}
+
+export class LruPolicy implements EvictionPolicy {
+    readonly name = 'lru';
+    private order = new Set<string>();
+
+    recordHit(key: string): void {
+        touch(this.order, key);
+    }
+
+    recordMiss(): void {}
+
+    recordInsert(key: string): void {
+        touch(this.order, key);
+    }
+
+    recordRemoval(key: string): void {
+        this.order.delete(key);
+    }
+
+    selectVictim(): string | undefined {
+        return oldest(this.order);
+    }
+
+    clear(): void {
+        this.order.clear();
+    }
+}
+
+// Least frequently used, ties broken by recency; counts are forgotten when an entry leaves
+export class LfuPolicy implements EvictionPolicy {
+    readonly name = 'lfu';
+    private frequencies = new Map<string, number>();
+    private buckets = new Map<number, Set<string>>();
+    private minFrequency = 0;
+
+    recordHit(key: string): void {
+        const frequency = this.frequencies.get(key);
+        if (frequency === undefined) return;
+
+        this.leaveBucket(key, frequency);
+        this.enterBucket(key, frequency + 1);
+        if (this.minFrequency === frequency && !this.buckets.has(frequency)) this.minFrequency = frequency + 1;
+    }
+
+    recordMiss(): void {}
+
+    recordInsert(key: string): void {
+        if (this.frequencies.has(key)) return this.recordHit(key);
+        this.enterBucket(key, 1);
+        this.minFrequency = 1;
+    }
+
+    recordRemoval(key: string): void {
+        const frequency = this.frequencies.get(key);
+        if (frequency === undefined) return;
+        this.leaveBucket(key, frequency);
+        if (this.minFrequency === frequency && !this.buckets.has(frequency)) {
+            this.minFrequency = this.buckets.size > 0 ? Math.min(...this.buckets.keys()) : 0;
+        }
+    }
+
+    selectVictim(): string | undefined {
+        const bucket = this.buckets.get(this.minFrequency);
+        return bucket ? oldest(bucket) : undefined;
+    }
+
+    clear(): void {
+        this.frequencies.clear();
+        this.buckets.clear();
+        this.minFrequency = 0;
+    }
+
+    private enterBucket(key: string, frequency: number): void {
+        this.frequencies.set(key, frequency);
+        if (!this.buckets.has(frequency)) this.buckets.set(frequency, new Set());
+        this.buckets.get(frequency)!.add(key);
+    }
+
+    private leaveBucket(key: string, frequency: number): void {
+        const bucket = this.buckets.get(frequency)!;
+        bucket.delete(key);
+        if (bucket.size === 0) this.buckets.delete(frequency);
+        this.frequencies.delete(key);
+    }
+}
+
+// Adaptive Replacement Cache (Megiddo & Modha): recent (t1) and frequent (t2) lists, plus ghost
+// lists (b1, b2) of recently evicted keys whose hits shift the target size of t1.
+export class ArcPolicy implements EvictionPolicy {
+    readonly name = 'arc';
+    private t1 = new Set<string>();
+    private t2 = new Set<string>();
+    private b1 = new Set<string>();
+    private b2 = new Set<string>();
+    private target = 0;
+
+    constructor(private capacity: number) {}
+
+    recordHit(key: string): void {
+        if (this.t1.delete(key) || this.t2.has(key)) touch(this.t2, key);
+    }
+
+    recordMiss(): void {}
+
+    recordInsert(key: string): void {
+        if (this.t1.has(key) || this.t2.has(key)) return this.recordHit(key);
+
+        if (this.b1.delete(key)) {
+            this.target = Math.min(this.capacity, this.target + Math.max(this.b2.size / Math.max(this.b1.size, 1), 1));
+            touch(this.t2, key);
+        } else if (this.b2.delete(key)) {
+            this.target = Math.max(0, this.target - Math.max(this.b1.size / Math.max(this.b2.size, 1), 1));
+            touch(this.t2, key);
+        } else {
+            this.t1.add(key);
+        }
+        this.trimGhosts();
+    }
+
+    recordRemoval(key: string, evicted: boolean): void {
+        if (this.t1.delete(key)) {
+            if (evicted) this.b1.add(key);
+        } else if (this.t2.delete(key)) {
+            if (evicted) this.b2.add(key);
+        }
+        this.trimGhosts();
+    }
+
+    selectVictim(incoming?: string): string | undefined {
+        const preferRecent = this.t1.size > 0
+            && (this.t1.size > this.target || (incoming !== undefined && this.b2.has(incoming) && this.t1.size === Math.floor(this.target)));
+        return preferRecent || this.t2.size === 0 ? oldest(this.t1) : oldest(this.t2);
+    }
+
+    clear(): void {
+        [this.t1, this.t2, this.b1, this.b2].forEach(list => list.clear());
+        this.target = 0;
+    }
+
+    private trimGhosts(): void {
+        while (this.b1.size > 0 && this.t1.size + this.b1.size > this.capacity) this.b1.delete(oldest(this.b1)!);
+        while (this.b2.size > 0 && this.t1.size + this.t2.size + this.b1.size + this.b2.size > 2 * this.capacity) {
+            this.b2.delete(oldest(this.b2)!);
+        }
+    }
+}
+
+// Count-min sketch of 4-bit counters, halved every `sampleSize` increments so old popularity fades
+class FrequencySketch {
+    private table: Uint8Array;
+    private mask: number;
+    private additions = 0;
+    private sampleSize: number;
+
+    constructor(capacity: number) {
+        const width = 2 ** Math.ceil(Math.log2(Math.max(16, capacity * 4)));
+        this.table = new Uint8Array(width * 4);
+        this.mask = width - 1;
+        this.sampleSize = Math.max(10 * capacity, 100);
+    }
+
+    increment(key: string): void {
+        let added = false;
+        for (let row = 0; row < 4; row++) {
+            const slot = this.slot(key, row);
+            if (this.table[slot] < 15) {
+                this.table[slot]++;
+                added = true;
+            }
+        }
+        if (added && ++this.additions >= this.sampleSize) this.age();
+    }
+
+    estimate(key: string): number {
+        let frequency = 15;
+        for (let row = 0; row < 4; row++) frequency = Math.min(frequency, this.table[this.slot(key, row)]);
+        return frequency;
+    }
+
+    clear(): void {
+        this.table.fill(0);
+        this.additions = 0;
+    }
+
+    private age(): void {
+        for (let i = 0; i < this.table.length; i++) this.table[i] >>= 1;
+        this.additions = Math.floor(this.additions / 2);
+    }
+
+    private slot(key: string, row: number): number {
+        let hash = 0x811c9dc5 ^ (row * 0x9e3779b9);
+        for (let i = 0; i < key.length; i++) hash = Math.imul(hash ^ key.charCodeAt(i), 0x01000193);
+        return row * (this.mask + 1) + ((hash >>> 0) & this.mask);
+    }
+}
+
+// W-TinyLFU (Einziger, Friedman & Manes): a small LRU window admits new keys; keys leaving it must
+// be estimated more frequent than the main region's victim to enter the segmented-LRU main region.
+export class WTinyLfuPolicy implements EvictionPolicy {
+    readonly name = 'w-tinylfu';
+    private window = new Set<string>();
+    private probation = new Set<string>();
+    private protectedSegment = new Set<string>();
+    private sketch: FrequencySketch;
+    private windowCapacity: number;
+    private mainCapacity: number;
+    private protectedCapacity: number;
+
+    constructor(capacity: number) {
+        this.windowCapacity = Math.max(1, Math.round(capacity * 0.01));
+        this.mainCapacity = Math.max(1, capacity - this.windowCapacity);
+        this.protectedCapacity = Math.max(1, Math.round(this.mainCapacity * 0.8));
+        this.sketch = new FrequencySketch(capacity);
+    }
+
+    recordHit(key: string): void {
+        this.sketch.increment(key);
+        if (this.window.has(key)) {
+            touch(this.window, key);
+        } else if (this.probation.delete(key)) {
+            touch(this.protectedSegment, key);
+            if (this.protectedSegment.size > this.protectedCapacity) {
+                const demoted = oldest(this.protectedSegment)!;
+                this.protectedSegment.delete(demoted);
+                this.probation.add(demoted);
+            }
+        } else if (this.protectedSegment.has(key)) {
+            touch(this.protectedSegment, key);
+        }
+    }
+
+    recordMiss(key: string): void {
+        this.sketch.increment(key);
+    }
+
+    recordInsert(key: string): void {
+        if (this.window.has(key) || this.probation.has(key) || this.protectedSegment.has(key)) return this.recordHit(key);
+
+        this.sketch.increment(key);
+        this.window.add(key);
+        // While the main region has room, keys leaving the window need no admission contest
+        if (this.window.size > this.windowCapacity && this.mainSize() < this.mainCapacity) {
+            const candidate = oldest(this.window)!;
+            this.window.delete(candidate);
+            this.probation.add(candidate);
+        }
+    }
+
+    recordRemoval(key: string): void {
+        this.window.delete(key) || this.probation.delete(key) || this.protectedSegment.delete(key);
+    }
+
+    selectVictim(incoming?: string): string | undefined {
+        // An incoming key will push the window's oldest key out, so it has to compete for the main region
+        const windowFull = incoming !== undefined ? this.window.size >= this.windowCapacity : this.window.size > this.windowCapacity;
+        const candidate = windowFull || this.mainSize() === 0 ? oldest(this.window) : undefined;
+        const victim = oldest(this.probation) ?? oldest(this.protectedSegment);
+        if (candidate === undefined) return victim ?? oldest(this.window);
+        if (victim === undefined) return candidate;
+
+        // The window's oldest key is admitted only if it is estimated more popular than the main victim
+        if (this.sketch.estimate(candidate) > this.sketch.estimate(victim)) {
+            this.window.delete(candidate);
+            this.probation.add(candidate);
+            return victim;
+        }
+        return candidate;
+    }
+
+    clear(): void {
+        [this.window, this.probation, this.protectedSegment].forEach(segment => segment.clear());
+        this.sketch.clear();
+    }
+
+    private mainSize(): number {
+        return this.probation.size + this.protectedSegment.size;
+    }
+}
+
+export function createEvictionPolicy(name: EvictionPolicyName, capacity: number): EvictionPolicy {
+    switch (name) {
+        case 'lru':
+            return new LruPolicy();
+        case 'lfu':
+            return new LfuPolicy();
+        case 'arc':
+            return new ArcPolicy(capacity);
+        case 'w-tinylfu':
+            return new WTinyLfuPolicy(capacity);
+        default:
+            throw new Error(`Unknown eviction policy: ${name}`);
+    }
+}
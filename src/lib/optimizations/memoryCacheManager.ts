@@ -1,11 +1,54 @@
 // src/lib/optimizations/memoryCacheManager.ts
 
+import * as fs from 'fs';
+import * as path from 'path';
+import { createHash } from 'crypto';
+import { Clock, systemClock } from '../clock';
+import { readVersionedIfPresent, writeVersioned } from '../snapshotFormat';
+import { normalize } from '../vectorMath';
+import { EvictionPolicy, EvictionPolicyName, createEvictionPolicy } from './evictionPolicies';
+
 interface CacheEntry<T> {
     data: T;
     timestamp: number;
     lastAccessed: number;
     accessCount: number;
     size: number;
+    tags: string[];
+    staleWindow: number;
+}
+
+// An entry spilled to the disk tier; its data lives in `file` under the disk path
+interface DiskEntry {
+    file: string;
+    timestamp: number;
+    lastAccessed: number;
+    accessCount: number;
+    size: number;
+    tags: string[];
+    staleWindow: number;
+}
+
+// A loader failure remembered by getOrCompute
+interface CachedFailure {
+    error: unknown;
+    expiresAt: number;
+    tags: string[];
+}
+
+interface Flight<T> {
+    promise: Promise<T>;
+    tags: string[];
+}
+
+interface SavedEntry {
+    key: string;
+    data: any;
+    timestamp: number;
+    lastAccessed: number;
+    accessCount: number;
+    tags?: string[];  // Absent in caches saved before tagging existed
+    staleWindow?: number;
 }
 
 interface CacheConfig {
@@ -13,110 +56,513 @@ interface CacheConfig {
     maxEntries: number;           // Maximum number of entries
     ttl: number;                  // Time to live in milliseconds
     cleanupInterval: number;      // Cleanup interval in milliseconds
+    evictionPolicy: EvictionPolicyName | EvictionPolicy;  // Chooses entries to drop when a limit is reached
+    queryTolerance: number;       // Cosine distance within which a cached query answers a new one
+    diskPath: string | null;      // Directory for entries evicted from RAM; null keeps the cache RAM-only
+    diskMaxSize: number;          // Maximum size of the disk tier in bytes
+    errorTtl: number;             // Default time getOrCompute remembers a loader failure
+}
+
+export interface CacheSetOptions {
+    tags: string[];               // Labels of what the value was derived from, for invalidateByTag
+    staleWindow: number;          // Time past the TTL during which getOrCompute serves the value while refreshing it
+}
+
+export interface ComputeOptions extends CacheSetOptions {
+    errorTtl: number;             // Time a loader failure is rethrown without calling the loader again; 0 disables
+}
+
+// Tags EnhancedVectorStore invalidates when the memory, cluster or memory type they name changes
+export function memoryTag(type: string, id: number): string {
+    return `memory:${type}:${id}`;
+}
+
+export function clusterTag(type: string, id: number): string {
+    return `cluster:${type}:${id}`;
+}
+
+export function typeTag(type: string): string {
+    return `type:${type}`;
+}
+
+// Search parameters a cached query result is only valid for
+export interface QueryScope {
+    k: number;
+    threshold: number;
+    partitions: string[];         // Partitions the search was routed to; empty when it covered the whole type
+}
+
+export interface QueryResult {
+    memoryId: number;
+    similarity: number;
+}
+
+// What changed in a memory type, for invalidating the queries it can affect
+export interface QueryChange {
+    memoryId: number;
+    partition?: string;           // Set when the memory was (re)indexed into this partition
+}
+
+interface QueryEntry extends QueryScope {
+    vector: number[];             // Unit length
+    results: QueryResult[];
 }
 
 export class MemoryCache {
     private cache: Map<string, CacheEntry<any>>;
     private config: CacheConfig;
     private currentSize: number;
-    private cleanupTimer: NodeJS.Timer | null;
-
-    constructor(config: Partial<CacheConfig> = {}) {
+    private cleanupTimer: (() => void) | null;
+    private clock: Clock;
+    private policy: EvictionPolicy;
+    private hits: number;
+    private misses: number;
+    private queryKeys: Map<string, Set<string>>;  // Memory type -> keys of its cached query results
+    private disk: Map<string, DiskEntry>;  // Oldest spill first
+    private diskSize: number;
+    private spillSequence: number;
+    private tagIndex: Map<string, Set<string>>;  // Tag -> keys carrying it, in either tier
+    private flights: Map<string, Flight<any>>;  // Loads in progress, shared by concurrent getOrCompute calls
+    private failures: Map<string, CachedFailure>;
+
+    constructor(config: Partial<CacheConfig> = {}, clock: Clock = systemClock) {
+        this.clock = clock;
         this.cache = new Map();
         this.config = {
             maxSize: 100 * 1024 * 1024,  // 100MB default
             maxEntries: 10000,
             ttl: 30 * 60 * 1000,         // 30 minutes
             cleanupInterval: 5 * 60 * 1000, // 5 minutes
+            evictionPolicy: 'lru',
+            queryTolerance: 0.001,
+            diskPath: null,
+            diskMaxSize: 1024 * 1024 * 1024,  // 1GB default
+            errorTtl: 5 * 1000,          // 5 seconds
             ...config
         };
+        this.policy = typeof this.config.evictionPolicy === 'string'
+            ? createEvictionPolicy(this.config.evictionPolicy, this.config.maxEntries)
+            : this.config.evictionPolicy;
         this.currentSize = 0;
+        this.hits = 0;
+        this.misses = 0;
+        this.queryKeys = new Map();
+        this.disk = new Map();
+        this.diskSize = 0;
+        this.spillSequence = 0;
+        this.tagIndex = new Map();
+        this.flights = new Map();
+        this.failures = new Map();
         this.cleanupTimer = null;
         this.startCleanupInterval();
     }
 
     private startCleanupInterval(): void {
         if (this.cleanupTimer) {
-            clearInterval(this.cleanupTimer);
+            this.cleanupTimer();
         }
-        this.cleanupTimer = setInterval(() => {
+        this.cleanupTimer = this.clock.setInterval(() => {
             this.cleanup();
         }, this.config.cleanupInterval);
     }
 
-    async set<T>(key: string, value: T): Promise<boolean> {
-        try {
-            const size = this.calculateSize(value);
-            
-            // Check if we need to make space
-            if (this.currentSize + size > this.config.maxSize) {
-                await this.makeSpace(size);
-            }
+    // Stops the cleanup interval; the entries stay readable but nothing expires them in the background
+    dispose(): void {
+        if (!this.cleanupTimer) return;
+        this.cleanupTimer();
+        this.cleanupTimer = null;
+    }
 
-            // If still no space after cleanup, return false
-            if (this.currentSize + size > this.config.maxSize) {
-                return false;
-            }
+    // A set value supersedes any load in progress and any remembered loader failure for the key
+    async set<T>(key: string, value: T, options: Partial<CacheSetOptions> = {}): Promise<boolean> {
+        this.flights.delete(key);
+        this.failures.delete(key);
+        return this.write(key, value, options);
+    }
 
-            const entry: CacheEntry<T> = {
+    private async write<T>(key: string, value: T, options: Partial<CacheSetOptions>): Promise<boolean> {
+        try {
+            await this.removeFromDisk(key);
+            return await this.store(key, {
                 data: value,
-                timestamp: Date.now(),
-                lastAccessed: Date.now(),
+                timestamp: this.clock.now(),
+                lastAccessed: this.clock.now(),
                 accessCount: 0,
-                size
-            };
+                size: this.calculateSize(value),
+                tags: [...new Set(options.tags || [])],
+                staleWindow: options.staleWindow || 0
+            });
+        } catch (error) {
+            console.error('Error setting cache entry:', error);
+            return false;
+        }
+    }
 
-            // Update or add entry
-            const existingEntry = this.cache.get(key);
-            if (existingEntry) {
-                this.currentSize -= existingEntry.size;
-            }
+    // Places an entry in RAM, evicting (and spilling) others to make room
+    private async store<T>(key: string, entry: CacheEntry<T>): Promise<boolean> {
+        const size = entry.size;
+        if (size > this.config.maxSize) return false;
 
-            this.cache.set(key, entry);
-            this.currentSize += size;
+        // Check if we need to make space
+        if (!this.fits(key, size)) {
+            await this.makeSpace(key, size);
+        }
 
-            return true;
-        } catch (error) {
-            console.error('Error setting cache entry:', error);
+        // If still no space after eviction, return false
+        if (!this.fits(key, size)) {
             return false;
         }
+
+        // Update or add entry
+        const existingEntry = this.cache.get(key);
+        if (existingEntry) {
+            this.currentSize -= existingEntry.size;
+            this.untag(key, existingEntry.tags);
+            this.policy.recordHit(key);
+        } else {
+            this.policy.recordInsert(key);
+        }
+
+        this.cache.set(key, entry);
+        this.currentSize += size;
+        this.tag(key, entry.tags);
+
+        return true;
     }
 
     async get<T>(key: string): Promise<T | null> {
-        const entry = this.cache.get(key);
-        if (!entry) return null;
+        const entry = await this.lookup<T>(key);
+        return entry ? entry.data : null;
+    }
+
+    // The fresh entry for `key`, counted as a hit, or undefined, counted as a miss. Unlike get(), a
+    // cached null is told apart from a missing entry.
+    private async lookup<T>(key: string): Promise<CacheEntry<T> | undefined> {
+        let entry = this.cache.get(key);
 
         // Check if entry has expired
-        if (this.isExpired(entry)) {
-            this.cache.delete(key);
-            this.currentSize -= entry.size;
-            return null;
+        if (!entry) entry = await this.promote(key);
+        // Stale entries stay for getOrCompute until their stale window ends, but are never returned here
+        if (entry && !this.isFresh(entry)) {
+            if (this.isExpired(entry)) this.removeEntry(key, entry, false);
+            entry = undefined;
+        }
+        if (!entry) {
+            this.misses++;
+            this.policy.recordMiss(key);
+            return undefined;
         }
 
         // Update access statistics
-        entry.lastAccessed = Date.now();
+        entry.lastAccessed = this.clock.now();
         entry.accessCount++;
+        this.hits++;
+        this.policy.recordHit(key);
 
-        return entry.data;
+        return entry;
     }
 
     async delete(key: string): Promise<boolean> {
+        this.flights.delete(key);
+        this.failures.delete(key);
+        const onDisk = await this.removeFromDisk(key);
         const entry = this.cache.get(key);
         if (entry) {
-            this.cache.delete(key);
-            this.currentSize -= entry.size;
+            this.removeEntry(key, entry, false);
             return true;
         }
-        return false;
+        return onDisk;
     }
 
     async clear(): Promise<void> {
+        for (const key of [...this.disk.keys()]) await this.removeFromDisk(key);
         this.cache.clear();
+        this.policy.clear();
         this.currentSize = 0;
+        this.hits = 0;
+        this.misses = 0;
+        this.queryKeys.clear();
+        this.tagIndex.clear();
+        this.flights.clear();
+        this.failures.clear();
     }
 
-    private isExpired(entry: CacheEntry<any>): boolean {
-        return Date.now() - entry.timestamp > this.config.ttl;
+    // Returns the cached value, or loads and caches it. Concurrent misses on a key share one loader call.
+    // Within an entry's stale window the stale value is returned at once while a single refresh runs;
+    // a loader failure is rethrown to every caller for `errorTtl` without calling the loader again.
+    async getOrCompute<T>(key: string, loader: () => Promise<T>, options: Partial<ComputeOptions> = {}): Promise<T> {
+        const entry = await this.lookup<T>(key);
+        if (entry) return entry.data;
+
+        let failure = this.failures.get(key);
+        if (failure && this.clock.now() >= failure.expiresAt) {
+            this.failures.delete(key);
+            failure = undefined;
+        }
+
+        const stale = this.cache.get(key);
+        if (stale) {
+            // A remembered failure holds off refreshes but the stale value is still served
+            if (!failure) this.compute(key, loader, options).catch(() => undefined);
+            return stale.data;
+        }
+        if (failure) throw failure.error;
+        return this.compute(key, loader, options);
+    }
+
+    // Removes every entry, in RAM or on disk, carrying any of `tags`. The entries are gone once the call
+    // returns; the promise settles when their spill files are deleted. Returns how many were removed.
+    invalidateByTag(...tags: string[]): Promise<number> {
+        const invalidated = new Set(tags);
+        for (const [key, flight] of this.flights) {
+            if (flight.tags.some(tag => invalidated.has(tag))) this.flights.delete(key);
+        }
+        for (const [key, failure] of this.failures) {
+            if (failure.tags.some(tag => invalidated.has(tag))) this.failures.delete(key);
+        }
+
+        const keys = new Set(tags.flatMap(tag => [...this.tagIndex.get(tag) || []]));
+        const deletions: Promise<boolean>[] = [];
+        for (const key of keys) {
+            const entry = this.cache.get(key);
+            if (entry) this.removeEntry(key, entry, false);
+            else deletions.push(this.removeFromDisk(key));
+        }
+        return Promise.all(deletions).then(() => keys.size);
+    }
+
+    // Joins the load in progress for `key` or starts one. A load superseded by set, delete, clear or
+    // invalidation while running still answers its callers but caches nothing.
+    private compute<T>(key: string, loader: () => Promise<T>, options: Partial<ComputeOptions>): Promise<T> {
+        const inFlight = this.flights.get(key);
+        if (inFlight) return inFlight.promise;
+
+        const tags = [...new Set(options.tags || [])];
+        const errorTtl = options.errorTtl ?? this.config.errorTtl;
+        const flight: Flight<T> = {
+            tags,
+            promise: Promise.resolve()
+                .then(loader)
+                .then(
+                    async value => {
+                        if (this.flights.get(key) === flight) await this.write(key, value, { ...options, tags });
+                        return value;
+                    },
+                    error => {
+                        if (this.flights.get(key) === flight && errorTtl > 0) {
+                            this.failures.set(key, { error, expiresAt: this.clock.now() + errorTtl, tags });
+                        }
+                        throw error;
+                    }
+                )
+                .finally(() => {
+                    if (this.flights.get(key) === flight) this.flights.delete(key);
+                })
+        };
+        this.flights.set(key, flight);
+        return flight.promise;
+    }
+
+    // Results of the closest cached query within the tolerance that ran with the same scope, if any
+    async getSimilar(queryVector: Float32Array, type: string, scope: QueryScope): Promise<QueryResult[] | null> {
+        const vector = normalize(queryVector);
+        const key = this.findQuery(vector, type, scope);
+        const entry = key !== undefined ? this.cache.get(key) : undefined;
+        if (!key || !entry) {
+            this.misses++;
+            this.policy.recordMiss(key ?? queryKey(vector, type, scope));
+            return null;
+        }
+
+        entry.lastAccessed = this.clock.now();
+        entry.accessCount++;
+        this.hits++;
+        this.policy.recordHit(key);
+        return entry.data.results.map((r: QueryResult) => ({ ...r }));
+    }
+
+    // Replaces the result of an equivalent cached query rather than adding a near-duplicate
+    async storeSimilarityResults(queryVector: Float32Array, type: string, results: QueryResult[], scope: QueryScope): Promise<boolean> {
+        const vector = normalize(queryVector);
+        const key = this.findQuery(vector, type, scope) ?? queryKey(vector, type, scope);
+        const entry: QueryEntry = {
+            vector: Array.from(vector),
+            k: scope.k,
+            threshold: scope.threshold,
+            partitions: [...scope.partitions].sort(),
+            results: results.map(r => ({ ...r }))
+        };
+        if (!await this.set(key, entry, { tags: results.map(r => memoryTag(type, r.memoryId)) })) return false;
+
+        if (!this.queryKeys.has(type)) this.queryKeys.set(type, new Set());
+        this.queryKeys.get(type)!.add(key);
+        return true;
+    }
+
+    // Drops the cached queries of `type` a change can affect: those returning the memory, and for a
+    // (re)indexed memory those that searched its partition or the whole type. No change drops them all.
+    invalidateQueries(type: string, change?: QueryChange): number {
+        let removed = 0;
+        for (const key of [...this.queryKeys.get(type) || []]) {
+            const entry = this.cache.get(key)!;
+            const query: QueryEntry = entry.data;
+            const affected = !change
+                || query.results.some(r => r.memoryId === change.memoryId)
+                || (change.partition !== undefined && (query.partitions.length === 0 || query.partitions.includes(change.partition)));
+            if (affected) {
+                this.removeEntry(key, entry, false);
+                removed++;
+            }
+        }
+        return removed;
+    }
+
+    async optimizeCache(): Promise<void> {
+        await this.cleanup();
+        await this.optimize();
+    }
+
+    private findQuery(vector: Float32Array, type: string, scope: QueryScope): string | undefined {
+        const partitions = [...scope.partitions].sort().join(',');
+        let best: string | undefined;
+        let bestSimilarity = 1 - this.config.queryTolerance;
+
+        for (const key of this.queryKeys.get(type) || []) {
+            const entry = this.cache.get(key)!;
+            if (this.isExpired(entry)) {
+                this.removeEntry(key, entry, false);
+                continue;
+            }
+
+            const query: QueryEntry = entry.data;
+            if (query.k !== scope.k || query.threshold !== scope.threshold || query.partitions.join(',') !== partitions) continue;
+
+            let similarity = 0;
+            for (let i = 0; i < vector.length; i++) similarity += vector[i] * query.vector[i];
+            if (similarity >= bestSimilarity) {
+                best = key;
+                bestSimilarity = similarity;
+            }
+        }
+        return best;
+    }
+
+    private removeEntry(key: string, entry: CacheEntry<any>, evicted: boolean): void {
+        this.cache.delete(key);
+        this.currentSize -= entry.size;
+        this.policy.recordRemoval(key, evicted);
+        this.untag(key, entry.tags);
+        for (const keys of this.queryKeys.values()) keys.delete(key);
+    }
+
+    private tag(key: string, tags: string[]): void {
+        for (const tag of tags) {
+            if (!this.tagIndex.has(tag)) this.tagIndex.set(tag, new Set());
+            this.tagIndex.get(tag)!.add(key);
+        }
+    }
+
+    private untag(key: string, tags: string[]): void {
+        for (const tag of tags) {
+            const keys = this.tagIndex.get(tag);
+            keys?.delete(key);
+            if (keys?.size === 0) this.tagIndex.delete(tag);
+        }
+    }
+
+    // Whether `key` can hold `size` bytes within both the byte and the entry limits
+    private fits(key: string, size: number): boolean {
+        const existingEntry = this.cache.get(key);
+        return this.currentSize - (existingEntry?.size || 0) + size <= this.config.maxSize
+            && (existingEntry !== undefined || this.cache.size < this.config.maxEntries);
+    }
+
+    // Evicts the policy's next victim to the disk tier; false once the policy has nothing left to offer
+    private async evictOne(incoming?: string): Promise<boolean> {
+        const victim = this.policy.selectVictim(incoming);
+        if (victim === undefined) return false;
+
+        const entry = this.cache.get(victim);
+        if (entry) {
+            this.removeEntry(victim, entry, true);
+            await this.spill(victim, entry);
+        } else {
+            this.policy.recordRemoval(victim, true);
+        }
+        return true;
+    }
+
+    // Query results stay in RAM: matching one means comparing against its vector, so a spilled one could never be found
+    private async spill(key: string, entry: CacheEntry<any>): Promise<void> {
+        const diskPath = this.config.diskPath;
+        if (!diskPath || key.startsWith('query:') || entry.size > this.config.diskMaxSize) return;
+
+        // Registered before the write so invalidation reaches it meanwhile; names are unique so a
+        // late delete of an older spill of the same key cannot remove this one
+        const file = `${createHash('sha1').update(key).digest('hex')}-${++this.spillSequence}.json`;
+        while (this.disk.size > 0 && this.diskSize + entry.size > this.config.diskMaxSize) {
+            this.removeFromDisk(this.disk.keys().next().value!);
+        }
+        const { data, ...metadata } = entry;
+        const spilled: DiskEntry = { ...metadata, file };
+        this.disk.set(key, spilled);
+        this.diskSize += entry.size;
+        this.tag(key, entry.tags);
+
+        try {
+            await fs.promises.mkdir(diskPath, { recursive: true });
+            await fs.promises.writeFile(path.join(diskPath, file), JSON.stringify(data));
+            if (this.disk.get(key) !== spilled) await fs.promises.rm(path.join(diskPath, file), { force: true });
+        } catch (error) {
+            // Losing a spilled entry only costs a recompute
+            console.error('Error spilling cache entry to disk:', error);
+            if (this.disk.get(key) === spilled) this.removeFromDisk(key);
+        }
+    }
+
+    // Moves a spilled entry back into RAM, keeping its original timestamp so the TTL still applies
+    private async promote(key: string): Promise<CacheEntry<any> | undefined> {
+        const spilled = this.disk.get(key);
+        if (!spilled) return undefined;
+
+        let data: any;
+        try {
+            data = JSON.parse(await fs.promises.readFile(path.join(this.config.diskPath!, spilled.file), 'utf-8'));
+        } catch (error) {
+            console.error('Error reading spilled cache entry:', error);
+            return undefined;
+        }
+        // Set, deleted, invalidated or promoted by another call while the file was read
+        if (this.disk.get(key) !== spilled) return this.cache.get(key);
+
+        await this.removeFromDisk(key);
+        const { file, ...metadata } = spilled;
+        const entry: CacheEntry<any> = { ...metadata, data };
+        if (this.isExpired(entry) || !await this.store(key, entry)) return undefined;
+        return entry;
+    }
+
+    // Index bookkeeping happens before the returned promise's first await, so callers need not wait for the file
+    private async removeFromDisk(key: string): Promise<boolean> {
+        const spilled = this.disk.get(key);
+        if (!spilled) return false;
+
+        this.disk.delete(key);
+        this.diskSize -= spilled.size;
+        this.untag(key, spilled.tags);
+        await fs.promises.rm(path.join(this.config.diskPath!, spilled.file), { force: true }).catch(error => {
+            console.error('Error deleting spilled cache entry:', error);
+        });
+        return true;
+    }
+
+    private isFresh(entry: { timestamp: number }): boolean {
+        return this.clock.now() - entry.timestamp <= this.config.ttl;
+    }
+
+    // Past both the TTL and the stale window, so nothing may serve it
+    private isExpired(entry: { timestamp: number; staleWindow: number }): boolean {
+        return this.clock.now() - entry.timestamp > this.config.ttl + entry.staleWindow;
     }
 
     private calculateSize(value: any): number {
@@ -125,78 +571,106 @@ export class MemoryCache {
         return str.length * 2; // Approximate size in bytes (2 bytes per character)
     }
 
-    private async makeSpace(requiredSize: number): Promise<void> {
+    private async makeSpace(key: string, requiredSize: number): Promise<void> {
         // First, remove expired entries
         await this.cleanup();
 
-        // If still need space, remove least recently used entries
-        if (this.currentSize + requiredSize > this.config.maxSize) {
-            const entries = Array.from(this.cache.entries())
-                .sort((a, b) => a[1].lastAccessed - b[1].lastAccessed);
-
-            for (const [key, entry] of entries) {
-                if (this.currentSize + requiredSize <= this.config.maxSize) {
-                    break;
-                }
-                this.cache.delete(key);
-                this.currentSize -= entry.size;
-            }
+        // If still need space, evict the policy's victims
+        while (!this.fits(key, requiredSize)) {
+            if (!await this.evictOne(key)) break;
         }
     }
 
     private async cleanup(): Promise<void> {
-        const now = Date.now();
+        const now = this.clock.now();
         for (const [key, entry] of this.cache.entries()) {
-            if (now - entry.timestamp > this.config.ttl) {
-                this.cache.delete(key);
-                this.currentSize -= entry.size;
+            if (this.isExpired(entry)) {
+                this.removeEntry(key, entry, false);
             }
         }
+        for (const [key, spilled] of [...this.disk.entries()]) {
+            if (this.isExpired(spilled)) await this.removeFromDisk(key);
+        }
+        for (const [key, failure] of [...this.failures.entries()]) {
+            if (now >= failure.expiresAt) this.failures.delete(key);
+        }
     }
 
     async optimize(): Promise<void> {
-        // Remove least valuable entries if we're over 80% capacity
+        // Evict the policy's victims if we're over 80% capacity
         if (this.currentSize > this.config.maxSize * 0.8) {
-            const entries = Array.from(this.cache.entries())
-                .map(([key, entry]) => ({
-                    key,
-                    entry,
-                    value: this.calculateEntryValue(entry)
-                }))
-                .sort((a, b) => a.value - b.value);
-
             const targetSize = this.config.maxSize * 0.6; // Aim for 60% capacity
-            while (this.currentSize > targetSize && entries.length > 0) {
-                const { key, entry } = entries.shift()!;
-                this.cache.delete(key);
-                this.currentSize -= entry.size;
+            while (this.currentSize > targetSize) {
+                if (!await this.evictOne()) break;
             }
         }
     }
 
-    private calculateEntryValue(entry: CacheEntry<any>): number {
-        const age = Date.now() - entry.timestamp;
-        const recency = Date.now() - entry.lastAccessed;
-        
-        // Value formula considering multiple factors
-        return (
-            (entry.accessCount * 0.4) +                    // Access frequency
-            (1 / Math.log(recency + 1) * 0.3) +           // Recency
-            (1 / Math.log(age + 1) * 0.2) +               // Age
-            (1 / Math.log(entry.size + 1) * 0.1)          // Size efficiency
-        );
+    // Writes both tiers to one file, disk-tier entries first, so a restarted process starts warm
+    async save(filepath: string): Promise<void> {
+        const entries: SavedEntry[] = [];
+        for (const [key, spilled] of this.disk) {
+            try {
+                const data = JSON.parse(await fs.promises.readFile(path.join(this.config.diskPath!, spilled.file), 'utf-8'));
+                entries.push({ key, data, timestamp: spilled.timestamp, lastAccessed: spilled.lastAccessed, accessCount: spilled.accessCount, tags: spilled.tags, staleWindow: spilled.staleWindow });
+            } catch (error) {
+                if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+            }
+        }
+        for (const [key, entry] of this.cache) {
+            entries.push({ key, data: entry.data, timestamp: entry.timestamp, lastAccessed: entry.lastAccessed, accessCount: entry.accessCount, tags: entry.tags, staleWindow: entry.staleWindow });
+        }
+
+        await writeVersioned(filepath, 'memory-cache', {
+            entries,
+            queries: Array.from(this.queryKeys.entries()).map(([type, keys]) => [type, Array.from(keys)])
+        });
+    }
+
+    // Replaces the contents with a saved cache. Entries whose TTL ran out meanwhile are dropped;
+    // the rest are re-admitted oldest first, spilling to disk again once RAM is full.
+    async load(filepath: string): Promise<void> {
+        let data: { entries: SavedEntry[]; queries: [string, string[]][] } | null;
+        try {
+            data = await readVersionedIfPresent(filepath, 'memory-cache');
+        } catch (error) {
+            console.error('Error loading memory cache:', error);
+            throw error;
+        }
+
+        await this.clear();
+        if (!data) return;
+        for (const saved of data.entries) {
+            const entry: CacheEntry<any> = {
+                data: saved.data,
+                timestamp: saved.timestamp,
+                lastAccessed: saved.lastAccessed,
+                accessCount: saved.accessCount,
+                size: this.calculateSize(saved.data),
+                tags: saved.tags || [],
+                staleWindow: saved.staleWindow || 0
+            };
+            if (!this.isExpired(entry)) await this.store(saved.key, entry);
+        }
+        for (const [type, keys] of data.queries) {
+            this.queryKeys.set(type, new Set(keys.filter(key => this.cache.has(key))));
+        }
     }
 
     getStats(): {
         entryCount: number;
         currentSize: number;
+        diskEntryCount: number;
+        diskSize: number;
         hitRate: number;
         avgAccessTime: number;
     } {
         const stats = {
             entryCount: this.cache.size,
             currentSize: this.currentSize,
-            hitRate: 0,
+            diskEntryCount: this.disk.size,
+            diskSize: this.diskSize,
+            hitRate: this.hits + this.misses > 0 ? this.hits / (this.hits + this.misses) : 0,
             avgAccessTime: 0
         };
 
@@ -218,4 +692,12 @@ export class MemoryCache {
     }
 }
 
+// Repeats of a query share a key, so eviction policies can recognise a query that was evicted and asked again
+function queryKey(vector: Float32Array, type: string, scope: QueryScope): string {
+    const text = [scope.k, scope.threshold, [...scope.partitions].sort().join(','), Array.from(vector, v => v.toFixed(6)).join(',')].join('|');
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) hash = Math.imul(hash ^ text.charCodeAt(i), 0x01000193);
+    return `query:${type}:${(hash >>> 0).toString(16)}`;
+}
+
 export default MemoryCache;
@@ -0,0 +1,584 @@
+// src/lib/quantization.ts
+import { readVersioned, writeVersioned } from './snapshotFormat';
+import { normalize } from './vectorMath';
+
+export { normalize };
+
+export type QuantizationMethod = 'int8' | 'float16' | 'pq';
+
+export interface QuantizationConfig {
+    method: QuantizationMethod;
+    rerank: number;             // Re-score the top k * rerank compressed candidates at full precision; 0 disables
+    trainingSize: number;       // Vectors needed before int8 / pq train; until then searches are exact
+    subspaces?: number;         // pq only: code bytes per vector; must divide the dimension
+    centroids: number;          // pq only: centroids per subspace, at most 256
+    iterations: number;         // pq only: k-means iterations per subspace
+}
+
+export interface QuantizationReport {
+    method: QuantizationMethod;
+    vectors: number;
+    fullPrecisionBytes: number;     // float32 vectors
+    quantizedBytes: number;         // Codes plus codebooks / ranges
+    savedBytes: number;
+    compressionRatio: number;
+    k: number;
+    queries: number;
+    recall: number;                 // recall@k of the compressed ranking alone
+    rerankedRecall: number;         // recall@k after full-precision re-ranking
+}
+
+// The slice of the hnswlib index API the vector store relies on
+export interface VectorIndex {
+    initIndex(maxElements: number): void;
+    resizeIndex(newMaxElements: number): void;
+    getMaxElements(): number;
+    getCurrentCount(): number;
+    setEf(ef: number): void;
+    addPoint(point: number[], label: number): void;
+    markDelete(label: number): void;
+    searchKnn(query: number[], numNeighbors: number, filter?: (label: number) => boolean): { distances: number[]; neighbors: number[] };
+    writeIndex(filename: string): Promise<boolean>;
+    readIndex(filename: string): Promise<boolean>;
+}
+
+// Quantizers see unit vectors, so the inner products their scorers return approximate cosine similarity
+export interface VectorQuantizer {
+    readonly method: QuantizationMethod;
+    readonly codeSize: number;          // Bytes per encoded vector
+    readonly parameterBytes: number;    // Trained state shared by every code
+    readonly trained: boolean;
+    train(vectors: Float32Array[]): void;
+    encode(vector: Float32Array, code: Uint8Array): void;
+    decode(code: Uint8Array): Float32Array;
+    // Asymmetric distance computation: the query stays at full precision, only stored vectors are quantized
+    createScorer(query: Float32Array): (code: Uint8Array) => number;
+    toJSON(): any;
+}
+
+export const DEFAULT_QUANTIZATION: Omit<QuantizationConfig, 'method'> = {
+    rerank: 4,
+    trainingSize: 1000,
+    centroids: 256,
+    iterations: 10
+};
+
+// Per-dimension min/max ranges mapped onto 256 levels
+export class ScalarQuantizer implements VectorQuantizer {
+    readonly method = 'int8';
+    readonly codeSize: number;
+    private min: Float32Array;
+    private step: Float32Array;
+    private isTrained: boolean;
+
+    constructor(dimension: number, state?: { min: number[]; step: number[] }) {
+        this.codeSize = dimension;
+        this.min = state ? Float32Array.from(state.min) : new Float32Array(dimension);
+        this.step = state ? Float32Array.from(state.step) : new Float32Array(dimension);
+        this.isTrained = state !== undefined;
+    }
+
+    get parameterBytes(): number {
+        return this.min.byteLength + this.step.byteLength;
+    }
+
+    get trained(): boolean {
+        return this.isTrained;
+    }
+
+    train(vectors: Float32Array[]): void {
+        for (let i = 0; i < this.codeSize; i++) {
+            let low = Infinity;
+            let high = -Infinity;
+            for (const vector of vectors) {
+                low = Math.min(low, vector[i]);
+                high = Math.max(high, vector[i]);
+            }
+            this.min[i] = Number.isFinite(low) ? low : 0;
+            this.step[i] = Number.isFinite(high) ? (high - low) / 255 : 0;
+        }
+        this.isTrained = true;
+    }
+
+    encode(vector: Float32Array, code: Uint8Array): void {
+        for (let i = 0; i < this.codeSize; i++) {
+            const level = this.step[i] > 0 ? Math.round((vector[i] - this.min[i]) / this.step[i]) : 0;
+            code[i] = Math.min(255, Math.max(0, level));
+        }
+    }
+
+    decode(code: Uint8Array): Float32Array {
+        const vector = new Float32Array(this.codeSize);
+        for (let i = 0; i < this.codeSize; i++) vector[i] = this.min[i] + code[i] * this.step[i];
+        return vector;
+    }
+
+    createScorer(query: Float32Array): (code: Uint8Array) => number {
+        // q . (min + code * step) = q . min + (q * step) . code
+        let offset = 0;
+        const weights = new Float32Array(this.codeSize);
+        for (let i = 0; i < this.codeSize; i++) {
+            offset += query[i] * this.min[i];
+            weights[i] = query[i] * this.step[i];
+        }
+        return code => {
+            let score = offset;
+            for (let i = 0; i < weights.length; i++) score += weights[i] * code[i];
+            return score;
+        };
+    }
+
+    toJSON(): any {
+        return { min: Array.from(this.min), step: Array.from(this.step) };
+    }
+}
+
+let halfToFloat: Float32Array | null = null;
+
+// Every half-precision bit pattern decoded once, so scoring is a table lookup per dimension
+function halfTable(): Float32Array {
+    if (halfToFloat) return halfToFloat;
+    halfToFloat = new Float32Array(65536);
+    for (let bits = 0; bits < 65536; bits++) {
+        const sign = bits & 0x8000 ? -1 : 1;
+        const exponent = (bits >> 10) & 0x1f;
+        const fraction = bits & 0x3ff;
+        if (exponent === 0) halfToFloat[bits] = sign * fraction * 2 ** -24;
+        else if (exponent === 31) halfToFloat[bits] = fraction ? NaN : sign * Infinity;
+        else halfToFloat[bits] = sign * (1 + fraction / 1024) * 2 ** (exponent - 15);
+    }
+    return halfToFloat;
+}
+
+const floatView = new Float32Array(1);
+const bitsView = new Uint32Array(floatView.buffer);
+
+function floatToHalf(value: number): number {
+    floatView[0] = value;
+    const bits = bitsView[0];
+    const sign = (bits >> 16) & 0x8000;
+    const exponent = ((bits >> 23) & 0xff) - 127 + 15;
+    const mantissa = bits & 0x7fffff;
+
+    if (exponent >= 31) return sign | 0x7c00;                                   // Overflow to infinity
+    if (exponent <= 0) {
+        if (exponent < -10) return sign;                                        // Underflow to zero
+        const shifted = (mantissa | 0x800000) >> (1 - exponent);
+        return sign | ((shifted + 0x1000) >> 13);                               // Subnormal
+    }
+    return (sign | (exponent << 10) | (mantissa >> 13)) + ((mantissa >> 12) & 1);  // Round half up
+}
+
+export class HalfPrecisionQuantizer implements VectorQuantizer {
+    readonly method = 'float16';
+    readonly codeSize: number;
+    readonly parameterBytes = 0;
+    readonly trained = true;
+    private dimension: number;
+
+    constructor(dimension: number) {
+        this.dimension = dimension;
+        this.codeSize = dimension * 2;
+    }
+
+    train(): void {
+        // Nothing to learn: every value is rounded independently
+    }
+
+    encode(vector: Float32Array, code: Uint8Array): void {
+        for (let i = 0; i < this.dimension; i++) {
+            const half = floatToHalf(vector[i]);
+            code[2 * i] = half & 0xff;
+            code[2 * i + 1] = half >> 8;
+        }
+    }
+
+    decode(code: Uint8Array): Float32Array {
+        const table = halfTable();
+        const vector = new Float32Array(this.dimension);
+        for (let i = 0; i < this.dimension; i++) vector[i] = table[code[2 * i] | (code[2 * i + 1] << 8)];
+        return vector;
+    }
+
+    createScorer(query: Float32Array): (code: Uint8Array) => number {
+        const table = halfTable();
+        return code => {
+            let score = 0;
+            for (let i = 0; i < query.length; i++) score += query[i] * table[code[2 * i] | (code[2 * i + 1] << 8)];
+            return score;
+        };
+    }
+
+    toJSON(): any {
+        return {};
+    }
+}
+
+// Splits vectors into `subspaces` slices and stores the nearest of `centroids` k-means centroids
+// for each slice: one byte per subspace.
+export class ProductQuantizer implements VectorQuantizer {
+    readonly method = 'pq';
+    readonly codeSize: number;
+    private dimension: number;
+    private subDimension: number;
+    private centroids: number;          // Trained centroid count; can be lower than requested on small samples
+    private iterations: number;
+    private codebook: Float32Array;     // [subspace][centroid][component]
+
+    constructor(
+        dimension: number,
+        subspaces: number,
+        centroids: number,
+        iterations: number,
+        state?: { centroids: number; codebook: number[] }
+    ) {
+        if (dimension % subspaces !== 0) {
+            throw new Error(`Product quantization needs subspaces dividing the dimension: ${subspaces} does not divide ${dimension}`);
+        }
+        if (centroids < 1 || centroids > 256) throw new Error(`Product quantization supports 1-256 centroids, got ${centroids}`);
+
+        this.dimension = dimension;
+        this.codeSize = subspaces;
+        this.subDimension = dimension / subspaces;
+        this.centroids = state ? state.centroids : centroids;
+        this.iterations = iterations;
+        this.codebook = state ? Float32Array.from(state.codebook) : new Float32Array(0);
+    }
+
+    get parameterBytes(): number {
+        return this.codebook.byteLength;
+    }
+
+    get trained(): boolean {
+        return this.codebook.length > 0;
+    }
+
+    train(vectors: Float32Array[]): void {
+        if (vectors.length === 0) throw new Error('Product quantization needs training vectors');
+        this.centroids = Math.min(this.centroids, vectors.length);
+        const codebook = new Float32Array(this.codeSize * this.centroids * this.subDimension);
+        const random = seededRandom(42);
+
+        for (let m = 0; m < this.codeSize; m++) {
+            const offset = m * this.subDimension;
+            const slices = vectors.map(v => v.subarray(offset, offset + this.subDimension));
+            const centroids = codebook.subarray(m * this.centroids * this.subDimension, (m + 1) * this.centroids * this.subDimension);
+
+            // Seed with distinct samples, then refine with Lloyd iterations; empty centroids keep their position
+            const order = slices.map((_, i) => i);
+            for (let i = order.length - 1; i > 0; i--) {
+                const j = Math.floor(random() * (i + 1));
+                [order[i], order[j]] = [order[j], order[i]];
+            }
+            for (let c = 0; c < this.centroids; c++) centroids.set(slices[order[c]], c * this.subDimension);
+
+            const assignments = new Int32Array(slices.length);
+            for (let iteration = 0; iteration < this.iterations; iteration++) {
+                slices.forEach((slice, i) => {
+                    assignments[i] = this.nearestCentroid(centroids, slice);
+                });
+
+                const sums = new Float32Array(centroids.length);
+                const counts = new Int32Array(this.centroids);
+                slices.forEach((slice, i) => {
+                    counts[assignments[i]]++;
+                    for (let d = 0; d < this.subDimension; d++) sums[assignments[i] * this.subDimension + d] += slice[d];
+                });
+                for (let c = 0; c < this.centroids; c++) {
+                    if (counts[c] === 0) continue;
+                    for (let d = 0; d < this.subDimension; d++) {
+                        centroids[c * this.subDimension + d] = sums[c * this.subDimension + d] / counts[c];
+                    }
+                }
+            }
+        }
+        this.codebook = codebook;
+    }
+
+    encode(vector: Float32Array, code: Uint8Array): void {
+        for (let m = 0; m < this.codeSize; m++) {
+            const offset = m * this.subDimension;
+            code[m] = this.nearestCentroid(this.subspaceCodebook(m), vector.subarray(offset, offset + this.subDimension));
+        }
+    }
+
+    decode(code: Uint8Array): Float32Array {
+        const vector = new Float32Array(this.dimension);
+        for (let m = 0; m < this.codeSize; m++) {
+            const start = code[m] * this.subDimension;
+            vector.set(this.subspaceCodebook(m).subarray(start, start + this.subDimension), m * this.subDimension);
+        }
+        return vector;
+    }
+
+    createScorer(query: Float32Array): (code: Uint8Array) => number {
+        // One table of query . centroid per subspace, so scoring a code is codeSize lookups
+        const table = new Float32Array(this.codeSize * this.centroids);
+        for (let m = 0; m < this.codeSize; m++) {
+            const centroids = this.subspaceCodebook(m);
+            for (let c = 0; c < this.centroids; c++) {
+                let dot = 0;
+                for (let d = 0; d < this.subDimension; d++) {
+                    dot += query[m * this.subDimension + d] * centroids[c * this.subDimension + d];
+                }
+                table[m * this.centroids + c] = dot;
+            }
+        }
+        return code => {
+            let score = 0;
+            for (let m = 0; m < code.length; m++) score += table[m * this.centroids + code[m]];
+            return score;
+        };
+    }
+
+    toJSON(): any {
+        return { centroids: this.centroids, codebook: Array.from(this.codebook) };
+    }
+
+    private subspaceCodebook(m: number): Float32Array {
+        const size = this.centroids * this.subDimension;
+        return this.codebook.subarray(m * size, (m + 1) * size);
+    }
+
+    private nearestCentroid(centroids: Float32Array, slice: Float32Array): number {
+        let best = 0;
+        let bestDistance = Infinity;
+        for (let c = 0; c < this.centroids; c++) {
+            let distance = 0;
+            for (let d = 0; d < this.subDimension; d++) {
+                const diff = slice[d] - centroids[c * this.subDimension + d];
+                distance += diff * diff;
+            }
+            if (distance < bestDistance) {
+                bestDistance = distance;
+                best = c;
+            }
+        }
+        return best;
+    }
+}
+
+export function createQuantizer(dimension: number, config: QuantizationConfig, state?: any): VectorQuantizer {
+    switch (config.method) {
+        case 'int8':
+            return new ScalarQuantizer(dimension, state?.min ? state : undefined);
+        case 'float16':
+            return new HalfPrecisionQuantizer(dimension);
+        case 'pq':
+            return new ProductQuantizer(
+                dimension,
+                config.subspaces ?? defaultSubspaces(dimension),
+                config.centroids,
+                config.iterations,
+                state?.codebook ? state : undefined
+            );
+        default:
+            throw new Error(`Unknown quantization method: ${(config as QuantizationConfig).method}`);
+    }
+}
+
+// Largest divisor of the dimension giving subspaces of at least 8 components
+export function defaultSubspaces(dimension: number): number {
+    for (let m = Math.floor(dimension / 8); m > 1; m--) {
+        if (dimension % m === 0) return m;
+    }
+    return 1;
+}
+
+function seededRandom(seed: number): () => number {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6d2b79f5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+// Drop-in replacement for a per-type HNSW index that keeps compressed codes instead of float32
+// vectors. Searches score every live code against the query (ADC), then re-rank the best
+// candidates with the full-precision vectors `getVector` returns. Deleted labels keep their slot
+// until the index is rebuilt, like hnswlib tombstones.
+export class QuantizedIndex implements VectorIndex {
+    private dimension: number;
+    private config: QuantizationConfig;
+    private quantizer: VectorQuantizer;
+    private getVector: (label: number) => Float32Array | undefined;
+    private slots: Map<number, number>;
+    private deleted: Set<number>;
+    private codes: Uint8Array;
+    private maxElements: number;
+
+    constructor(dimension: number, config: QuantizationConfig, getVector: (label: number) => Float32Array | undefined) {
+        this.dimension = dimension;
+        this.config = config;
+        this.quantizer = createQuantizer(dimension, config);
+        this.getVector = getVector;
+        this.slots = new Map();
+        this.deleted = new Set();
+        this.codes = new Uint8Array(0);
+        this.maxElements = 0;
+    }
+
+    get trained(): boolean {
+        return this.quantizer.trained;
+    }
+
+    initIndex(maxElements: number): void {
+        this.maxElements = maxElements;
+        this.codes = new Uint8Array(maxElements * this.quantizer.codeSize);
+        this.slots = new Map();
+        this.deleted = new Set();
+    }
+
+    resizeIndex(newMaxElements: number): void {
+        const codes = new Uint8Array(newMaxElements * this.quantizer.codeSize);
+        codes.set(this.codes.subarray(0, Math.min(this.codes.length, codes.length)));
+        this.codes = codes;
+        this.maxElements = newMaxElements;
+    }
+
+    getMaxElements(): number {
+        return this.maxElements;
+    }
+
+    getCurrentCount(): number {
+        return this.slots.size;
+    }
+
+    setEf(): void {
+        // No graph to tune: every search scans all codes
+    }
+
+    addPoint(point: number[], label: number): void {
+        let slot = this.slots.get(label);
+        if (slot === undefined) {
+            if (this.slots.size >= this.maxElements) throw new Error('The number of elements exceeds the specified limit');
+            slot = this.slots.size;
+            this.slots.set(label, slot);
+        }
+        this.deleted.delete(label);
+
+        // The caller stores the record after indexing it, so training samples the earlier vectors
+        if (!this.quantizer.trained && this.slots.size - this.deleted.size >= this.config.trainingSize) this.train();
+        if (this.quantizer.trained) this.quantizer.encode(normalize(point), this.codeAt(slot));
+    }
+
+    markDelete(label: number): void {
+        if (!this.slots.has(label)) throw new Error(`Label not found: ${label}`);
+        this.deleted.add(label);
+    }
+
+    // Trains on the live vectors and (re-)encodes every slot
+    train(): void {
+        const labels = this.liveLabels();
+        const vectors = labels
+            .map(label => this.getVector(label))
+            .filter((v): v is Float32Array => v !== undefined)
+            .map(normalize);
+        if (vectors.length === 0) return;
+
+        this.quantizer.train(vectors);
+        for (const [label, slot] of this.slots) {
+            const vector = this.getVector(label);
+            if (vector) this.quantizer.encode(normalize(vector), this.codeAt(slot));
+        }
+    }
+
+    searchKnn(query: number[], numNeighbors: number, filter?: (label: number) => boolean): { distances: number[]; neighbors: number[] } {
+        const normalized = normalize(query);
+        if (!this.quantizer.trained) return this.toResult(this.exactSearch(normalized, numNeighbors, filter));
+
+        if (this.config.rerank <= 0) return this.toResult(this.searchCompressed(normalized, numNeighbors, filter));
+        const candidates = this.searchCompressed(normalized, numNeighbors * this.config.rerank, filter);
+        return this.toResult(this.rescore(normalized, candidates.map(c => c.label)).slice(0, numNeighbors));
+    }
+
+    // Ranks by approximate similarity alone; used directly when re-ranking is disabled
+    searchCompressed(query: Float32Array, k: number, filter?: (label: number) => boolean): Array<{ label: number; score: number }> {
+        const score = this.quantizer.createScorer(normalize(query));
+        const best: Array<{ label: number; score: number }> = [];
+
+        for (const [label, slot] of this.slots) {
+            if (this.deleted.has(label) || (filter && !filter(label))) continue;
+            const candidate = { label, score: score(this.codeAt(slot)) };
+            if (best.length === k && candidate.score <= best[best.length - 1].score) continue;
+
+            // Bounded insertion keeps only the k best without sorting every code
+            let position = best.length;
+            while (position > 0 && best[position - 1].score < candidate.score) position--;
+            best.splice(position, 0, candidate);
+            if (best.length > k) best.pop();
+        }
+        return best;
+    }
+
+    // Bytes held for codes of live vectors and for the quantizer's trained state
+    memoryUsage(): { codeBytes: number; parameterBytes: number } {
+        return {
+            codeBytes: (this.slots.size - this.deleted.size) * this.quantizer.codeSize,
+            parameterBytes: this.quantizer.parameterBytes
+        };
+    }
+
+    async writeIndex(filename: string): Promise<boolean> {
+        await writeVersioned(filename, 'quantized-index', {
+            dimension: this.dimension,
+            config: this.config,
+            quantizer: this.quantizer.trained ? this.quantizer.toJSON() : null,
+            maxElements: this.maxElements,
+            labels: Array.from(this.slots.entries()),
+            deleted: Array.from(this.deleted),
+            codes: Buffer.from(this.codes.subarray(0, this.slots.size * this.quantizer.codeSize)).toString('base64')
+        });
+        return true;
+    }
+
+    async readIndex(filename: string): Promise<boolean> {
+        const data = await readVersioned(filename, 'quantized-index');
+        if (data.dimension !== this.dimension) {
+            throw new Error(`Dimension mismatch: index has ${data.dimension}, expected ${this.dimension}`);
+        }
+
+        this.config = data.config;
+        this.quantizer = createQuantizer(this.dimension, data.config, data.quantizer ?? undefined);
+        this.initIndex(data.maxElements);
+        this.slots = new Map(data.labels);
+        this.deleted = new Set(data.deleted);
+        this.codes.set(Buffer.from(data.codes, 'base64'));
+        return true;
+    }
+
+    private codeAt(slot: number): Uint8Array {
+        const size = this.quantizer.codeSize;
+        return this.codes.subarray(slot * size, (slot + 1) * size);
+    }
+
+    private liveLabels(): number[] {
+        return Array.from(this.slots.keys()).filter(label => !this.deleted.has(label));
+    }
+
+    private exactSearch(query: Float32Array, k: number, filter?: (label: number) => boolean): Array<{ label: number; score: number }> {
+        const labels = this.liveLabels().filter(label => !filter || filter(label));
+        return this.rescore(query, labels).slice(0, k);
+    }
+
+    private rescore(query: Float32Array, labels: number[]): Array<{ label: number; score: number }> {
+        return labels
+            .map(label => {
+                const vector = this.getVector(label);
+                if (!vector) return null;
+                const unit = normalize(vector);
+                let score = 0;
+                for (let i = 0; i < unit.length; i++) score += query[i] * unit[i];
+                return { label, score };
+            })
+            .filter((c): c is { label: number; score: number } => c !== null)
+            .sort((a, b) => b.score - a.score || a.label - b.label);
+    }
+
+    private toResult(results: Array<{ label: number; score: number }>): { distances: number[]; neighbors: number[] } {
+        return { neighbors: results.map(r => r.label), distances: results.map(r => 1 - r.score) };
+    }
+}
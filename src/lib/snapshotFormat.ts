@@ -0,0 +1,214 @@
+// src/lib/snapshotFormat.ts
+import * as fs from 'fs';
+import { createHash } from 'crypto';
+import { Clock, systemClock } from './clock';
+
+export type SnapshotComponent = 'vector-store' | 'anomaly-log' | 'partitioner' | 'archive' | 'graph' | 'analytics' | 'merge-history' | 'namespaces' | 'quantized-index' | 'memory-cache';
+
+export interface SnapshotManifest {
+    formatVersion: number;
+    createdAt: number;
+    dimension: number;
+    embeddingModel: string;
+    memoryCounts: Record<string, number>;
+    files: Record<string, { checksum: string; bytes: number }>;    // Keyed by suffix after the snapshot prefix
+}
+
+interface VersionedFile {
+    format: SnapshotComponent;
+    version: number;
+    data: any;
+}
+
+type Migration = (data: any) => any;
+
+// Layout version of a whole snapshot (which files exist and how the manifest is shaped)
+export const SNAPSHOT_FORMAT_VERSION = 1;
+
+export class SnapshotFormatError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'SnapshotFormatError';
+    }
+}
+
+// Upgrades component files one version at a time. Files written before versioning existed
+// carry no header and are treated as version 0.
+export class MigrationRegistry {
+    private migrations: Map<SnapshotComponent, Map<number, Migration>>;
+
+    constructor() {
+        this.migrations = new Map();
+    }
+
+    // `migrate` turns data at `fromVersion` into data at `fromVersion + 1`
+    register(component: SnapshotComponent, fromVersion: number, migrate: Migration): this {
+        let steps = this.migrations.get(component);
+        if (!steps) {
+            steps = new Map();
+            this.migrations.set(component, steps);
+        }
+        steps.set(fromVersion, migrate);
+        return this;
+    }
+
+    currentVersion(component: SnapshotComponent): number {
+        const steps = this.migrations.get(component);
+        if (!steps || steps.size === 0) return 1;
+        return Math.max(...steps.keys()) + 1;
+    }
+
+    upgrade(component: SnapshotComponent, version: number, data: any): any {
+        const target = this.currentVersion(component);
+        if (version > target) {
+            throw new SnapshotFormatError(
+                `${component} snapshot is version ${version}, this release reads up to version ${target}`
+            );
+        }
+
+        let upgraded = data;
+        for (let v = version; v < target; v++) {
+            const migrate = this.migrations.get(component)?.get(v);
+            if (!migrate) throw new SnapshotFormatError(`No migration for ${component} snapshot from version ${v}`);
+            upgraded = migrate(upgraded);
+        }
+        return upgraded;
+    }
+}
+
+export const snapshotMigrations = new MigrationRegistry()
+    .register('vector-store', 0, data => ({
+        ...data,
+        nextClusterId: data.nextClusterId ?? 0,
+        tombstones: data.tombstones || [],
+        clusters: data.clusters || []
+    }))
+    .register('anomaly-log', 0, data => (Array.isArray(data) ? data : []))
+    // Unversioned partitioner files serialised centroids as index-keyed objects and member Sets as {}
+    .register('partitioner', 0, data => ({
+        ...data,
+        partitions: (data.partitions as [string, any][]).map(([id, partition]) => [
+            id,
+            {
+                ...partition,
+                centroid: Array.isArray(partition.centroid) ? partition.centroid : Object.values(partition.centroid || {}),
+                members: Array.isArray(partition.members) ? partition.members : []
+            }
+        ])
+    }))
+    .register('archive', 0, data => data)
+    .register('graph', 0, data => data)
+    .register('analytics', 0, data => data);
+
+export function encodeVersioned(
+    component: SnapshotComponent,
+    data: any,
+    registry: MigrationRegistry = snapshotMigrations
+): string {
+    const file: VersionedFile = { format: component, version: registry.currentVersion(component), data };
+    return JSON.stringify(file);
+}
+
+export function decodeVersioned(
+    component: SnapshotComponent,
+    content: string,
+    registry: MigrationRegistry = snapshotMigrations
+): any {
+    const parsed = JSON.parse(content);
+    const versioned = parsed !== null && typeof parsed === 'object' && !Array.isArray(parsed)
+        && 'format' in parsed && 'version' in parsed;
+    if (!versioned) return registry.upgrade(component, 0, parsed);
+
+    if (parsed.format !== component) {
+        throw new SnapshotFormatError(`Expected a ${component} snapshot, found ${parsed.format}`);
+    }
+    return registry.upgrade(component, parsed.version, parsed.data);
+}
+
+export async function writeVersioned(filepath: string, component: SnapshotComponent, data: any): Promise<void> {
+    await fs.promises.writeFile(filepath, encodeVersioned(component, data));
+}
+
+export async function readVersioned(filepath: string, component: SnapshotComponent): Promise<any> {
+    return decodeVersioned(component, await fs.promises.readFile(filepath, 'utf-8'));
+}
+
+// Like readVersioned, but null when the file does not exist: snapshots written before a component
+// was persisted have no file for it
+export async function readVersionedIfPresent(filepath: string, component: SnapshotComponent): Promise<any | null> {
+    try {
+        return await readVersioned(filepath, component);
+    } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+        throw error;
+    }
+}
+
+export function checksum(content: Buffer | string): string {
+    return createHash('sha256').update(content).digest('hex');
+}
+
+// Hashes the snapshot files that exist under `prefix` and writes `${prefix}_manifest`
+export async function writeManifest(
+    prefix: string,
+    suffixes: string[],
+    info: Pick<SnapshotManifest, 'dimension' | 'embeddingModel' | 'memoryCounts'>,
+    clock: Clock = systemClock
+): Promise<SnapshotManifest> {
+    const manifest: SnapshotManifest = {
+        formatVersion: SNAPSHOT_FORMAT_VERSION,
+        createdAt: clock.now(),
+        ...info,
+        files: {}
+    };
+
+    for (const suffix of suffixes) {
+        let content: Buffer;
+        try {
+            content = await fs.promises.readFile(`${prefix}${suffix}`);
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code === 'ENOENT') continue;
+            throw error;
+        }
+        manifest.files[suffix] = { checksum: checksum(content), bytes: content.length };
+    }
+
+    await fs.promises.writeFile(`${prefix}_manifest`, JSON.stringify(manifest));
+    return manifest;
+}
+
+// Returns null for snapshots written before manifests existed
+export async function readManifest(prefix: string): Promise<SnapshotManifest | null> {
+    let manifest: SnapshotManifest;
+    try {
+        manifest = JSON.parse(await fs.promises.readFile(`${prefix}_manifest`, 'utf-8'));
+    } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+        throw error;
+    }
+
+    if (manifest.formatVersion > SNAPSHOT_FORMAT_VERSION) {
+        throw new SnapshotFormatError(
+            `Snapshot format ${manifest.formatVersion} is newer than supported format ${SNAPSHOT_FORMAT_VERSION}`
+        );
+    }
+    return manifest;
+}
+
+// Rejects snapshots whose files are missing or differ from what the manifest recorded
+export async function verifyManifest(prefix: string, manifest: SnapshotManifest): Promise<void> {
+    for (const [suffix, expected] of Object.entries(manifest.files)) {
+        let content: Buffer;
+        try {
+            content = await fs.promises.readFile(`${prefix}${suffix}`);
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+                throw new SnapshotFormatError(`Snapshot file ${prefix}${suffix} is missing`);
+            }
+            throw error;
+        }
+        if (content.length !== expected.bytes || checksum(content) !== expected.checksum) {
+            throw new SnapshotFormatError(`Checksum mismatch for ${prefix}${suffix}`);
+        }
+    }
+}
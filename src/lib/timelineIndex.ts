@@ -0,0 +1,100 @@
+// src/lib/timelineIndex.ts
+
+interface TimelineEntry {
+    id: number;
+    timestamp: number;
+}
+
+const CHUNK_SIZE = 512;
+
+// Ids ordered by timestamp, then id, so the entry just before a point in time is a binary search
+// rather than a scan. Entries live in sorted chunks of bounded size, so inserting anywhere stays cheap.
+export class TimelineIndex {
+    private chunks: TimelineEntry[][];
+    private timestamps: Map<number, number>;
+
+    constructor() {
+        this.chunks = [];
+        this.timestamps = new Map();
+    }
+
+    get size(): number {
+        return this.timestamps.size;
+    }
+
+    add(id: number, timestamp: number): void {
+        this.remove(id);
+        const entry = { id, timestamp };
+        this.timestamps.set(id, timestamp);
+        if (this.chunks.length === 0) {
+            this.chunks.push([entry]);
+            return;
+        }
+
+        const chunkIndex = Math.min(this.findChunk(entry), this.chunks.length - 1);
+        const chunk = this.chunks[chunkIndex];
+        chunk.splice(this.findOffset(chunk, entry), 0, entry);
+        if (chunk.length > 2 * CHUNK_SIZE) this.chunks.splice(chunkIndex + 1, 0, chunk.splice(CHUNK_SIZE));
+    }
+
+    remove(id: number): boolean {
+        const timestamp = this.timestamps.get(id);
+        if (timestamp === undefined) return false;
+        this.timestamps.delete(id);
+
+        const entry = { id, timestamp };
+        const chunkIndex = this.findChunk(entry);
+        const chunk = this.chunks[chunkIndex];
+        chunk.splice(this.findOffset(chunk, entry), 1);
+        if (chunk.length === 0) this.chunks.splice(chunkIndex, 1);
+        return true;
+    }
+
+    // The latest entry with earliest <= timestamp <= `timestamp`, skipping `excludeId`; ties go to the highest id
+    latestBefore(timestamp: number, earliest: number = -Infinity, excludeId?: number): number | null {
+        if (this.chunks.length === 0) return null;
+
+        const bound = { id: Infinity, timestamp };
+        let chunkIndex = this.findChunk(bound);
+        let offset = chunkIndex < this.chunks.length ? this.findOffset(this.chunks[chunkIndex], bound) : 0;
+        while (true) {
+            if (--offset < 0) {
+                if (--chunkIndex < 0) return null;
+                offset = this.chunks[chunkIndex].length - 1;
+            }
+            const entry = this.chunks[chunkIndex][offset];
+            if (entry.timestamp < earliest) return null;
+            if (entry.id !== excludeId) return entry.id;
+        }
+    }
+
+    // Index of the first chunk whose last entry is not before `entry`, or chunks.length if there is none
+    private findChunk(entry: TimelineEntry): number {
+        let low = 0;
+        let high = this.chunks.length;
+        while (low < high) {
+            const mid = (low + high) >> 1;
+            const chunk = this.chunks[mid];
+            if (compare(chunk[chunk.length - 1], entry) < 0) low = mid + 1;
+            else high = mid;
+        }
+        return low;
+    }
+
+    private findOffset(chunk: TimelineEntry[], entry: TimelineEntry): number {
+        let low = 0;
+        let high = chunk.length;
+        while (low < high) {
+            const mid = (low + high) >> 1;
+            if (compare(chunk[mid], entry) < 0) low = mid + 1;
+            else high = mid;
+        }
+        return low;
+    }
+}
+
+function compare(a: TimelineEntry, b: TimelineEntry): number {
+    return a.timestamp - b.timestamp || a.id - b.id;
+}
+
+export default TimelineIndex;
@@ -0,0 +1,23 @@
+// src/lib/vectorMath.ts
+
+export function cosineSimilarity(vec1: ArrayLike<number>, vec2: ArrayLike<number>): number {
+    let dotProduct = 0;
+    let norm1 = 0;
+    let norm2 = 0;
+
+    for (let i = 0; i < vec1.length; i++) {
+        dotProduct += vec1[i] * vec2[i];
+        norm1 += vec1[i] * vec1[i];
+        norm2 += vec2[i] * vec2[i];
+    }
+
+    return dotProduct / (Math.sqrt(norm1) * Math.sqrt(norm2)) || 0;
+}
+
+// A unit-length copy; the zero vector stays zero
+export function normalize(vector: ArrayLike<number>): Float32Array {
+    const result = Float32Array.from(vector);
+    const norm = Math.sqrt(result.reduce((sum, v) => sum + v * v, 0));
+    if (norm > 0) for (let i = 0; i < result.length; i++) result[i] /= norm;
+    return result;
+}
@@ -1,12 +1,31 @@
 // src/lib/vectorStore.ts
 
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
 import { HierarchicalNSW } from 'hnswlib-node';
-import { VECTOR_STORE_CONFIG, MEMORY_CONFIG, CLUSTER_CONFIG } from './config';
-import { MemoryCache } from './optimizations/memoryCacheManager';
+import { VECTOR_STORE_CONFIG, MEMORY_CONFIG } from './config';
+import { MemoryCache, QueryScope, clusterTag, memoryTag, typeTag } from './optimizations/memoryCacheManager';
 import { DatasetPartitioner } from './optimizations/datasetPartitioner';
 import { PredictiveAnalytics } from './analytics/predictiveAnalytics';
-
-interface EnhancedMemory extends Memory {
+import { EmbeddingProvider, LocalEmbeddingProvider } from './embeddingProvider';
+import { LexicalIndex } from './lexicalIndex';
+import { TimelineIndex } from './timelineIndex';
+import { MemoryArchive, ArchivedMemory, ArchiveReason } from './memoryArchive';
+import { MemoryGraph, MemoryEdge, RelationType, TraversalOptions } from './memoryGraph';
+import { MergeHistory, MergeRecord } from './mergeHistory';
+import { WriteAheadLog, WalEntry, WalOperation, writeFileAtomic } from './writeAheadLog';
+import { readManifest, readVersioned, readVersionedIfPresent, verifyManifest, writeManifest, writeVersioned } from './snapshotFormat';
+import { EventBus, EventHandler } from './eventBus';
+import { DecayConfig, DecayModel, createDefaultDecayModels } from './decayModels';
+import { MaintenanceScheduler, MaintenanceProgress, MaintenanceReport } from './maintenanceScheduler';
+import { Clock, systemClock } from './clock';
+import { cosineSimilarity } from './vectorMath';
+import { ANALYZE_MEMORY_TASK, MemoryAnalysis } from './analytics/analyticsWorker';
+import type { WorkerPool } from './workerPool';
+import { DEFAULT_QUANTIZATION, QuantizationConfig, QuantizationReport, QuantizedIndex, VectorIndex, createQuantizer } from './quantization';
+
+export interface EnhancedMemory extends Memory {
     lastAccessed: number;
     accessCount: number;
     decayRate: number;
@@ -15,14 +34,7 @@ interface EnhancedMemory extends Memory {
     aiGeneratedTags: string[];
     semanticContext: string[];
     neuralWeights?: Float32Array; // New: Neural-inspired weights
-}
-
-interface DecayConfig {
-    baseRate: number;
-    accessBoost: number;
-    importanceMultiplier: number;
-    minStrength: number;
-    adaptiveFactor?: number; // New: Self-adjusting decay
+    lastDecayed?: number; // When decay last updated strength; later decay starts from here or lastAccessed
 }
 
 interface AIConfig {
@@ -30,113 +42,1164 @@ interface AIConfig {
     contextWindow: number;
     semanticSimilarityThreshold: number;
     neuralLayerSize?: number; // New: Size of neural weighting layer
+    neuralSeed?: number; // Seed for reproducible weight initialisation
+    neuralLearningRate?: number; // Step size for retrieval feedback updates
+    relatedMemoryCount?: number; // similar-to edges created per inserted memory
+    sequenceWindow?: number; // Max gap (ms) for a follows edge to the preceding memory
+}
+
+interface PersistenceConfig {
+    checkpointInterval: number; // Logged mutations between automatic checkpoints
+    fsync: boolean; // Flush each log append before acknowledging the mutation
+}
+
+interface CheckpointPointer {
+    generation: string; // Snapshot files live at `${filepath}.${generation}_*`
+    sequence: number; // Last log entry included in the snapshot
+    createdAt: number;
 }
 
 interface TelemetryData {
     memoryCount: number;
     decayCurve: { time: number; strength: number }[];
     partitionStats: { id: string; size: number; density: number }[];
-    anomalyEvents: { timestamp: number; type: string; value: number }[];
+    anomalyEvents: AnomalyEvent[];
+}
+
+export interface AnomalyEvent {
+    timestamp: number;
+    type: string;
+    value: number;
+}
+
+export interface AccessScenario {
+    accessTimes?: number[];     // Offsets (ms from now) at which every simulated memory is accessed
+    accessInterval?: number;    // Or access every `accessInterval` ms
+}
+
+export interface DecayProjection {
+    memoryId: number;
+    model: string;
+    curve: { time: number; strength: number }[];    // Same shape as TelemetryData.decayCurve
+    archiveAt: number | null;                       // When strength reaches minStrength, null if beyond the horizon
+}
+
+// Payloads of the lifecycle events EnhancedVectorStore emits; log replay emits nothing
+export interface StoreEvents {
+    memoryAdded: { memory: EnhancedMemory };
+    memoryDecayed: { memory: EnhancedMemory; previousStrength: number };
+    memoryArchived: { memory: EnhancedMemory; reason: ArchiveReason };
+    memoriesMerged: { memory: EnhancedMemory; mergedIds: number[] };     // Merged sources are archived, not reported as memoryArchived
+    anomaly: AnomalyEvent;
+    maintenanceProgress: MaintenanceProgress;
+    maintenanceCompleted: { startedAt: number; duration: number; decayed: number; archived: number; merged: number };
+}
+
+export interface MemoryCluster {
+    id: number;
+    type: MemoryType;
+    centroid: Float32Array;
+    members: Set<number>;
+    createdAt: number;
+    updatedAt: number;
+    history: ClusterSnapshot[];         // Oldest first, capped at CLUSTER_HISTORY_LIMIT
+    snapshotCentroid: Float32Array;     // Centroid at the latest snapshot; drift is measured against it
+}
+
+export interface ClusterSnapshot {
+    timestamp: number;
+    size: number;
+    drift: number;      // 1 - cosine similarity to the centroid at the previous snapshot
+}
+
+export interface ClusterMetadata {
+    size: number;
+    averageStrength: number;
+    dominantEmotions: string[];
+    timeRange: { start: number; end: number };
+}
+
+export interface ClusterDynamics {
+    growth: Array<{ clusterId: number; rate: number }>;
+    stability: Array<{ clusterId: number; score: number }>;
+    mergeRecommendations: Array<{ cluster1: number; cluster2: number; similarity: number }>;
+}
+
+// All fields are optional and combined with AND; emotions and tags match if any listed value is present.
+// partition is only honoured by EnhancedVectorStore, which owns the partitioner.
+export interface MemoryFilter {
+    timeRange?: { start?: number; end?: number };
+    emotions?: string[];
+    tags?: string[];
+    strength?: { min?: number; max?: number };
+    importance?: { min?: number; max?: number };
+    clusterId?: number;
+    partition?: string;
+}
+
+export interface HybridSearchOptions {
+    fusion?: 'rrf' | 'weighted';
+    vectorWeight?: number;      // Weighted fusion only: share of the vector score (0-1)
+    rrfK?: number;              // RRF only: rank offset, higher flattens the rank curve
+    candidates?: number;        // Candidates drawn from each retriever before fusion
+    filter?: MemoryFilter;
+}
+
+export interface HybridSearchResult {
+    memoryId: number;
+    score: number;
+    vectorSimilarity?: number;
+    lexicalScore?: number;
+}
+
+export interface BulkIngestOptions {
+    batchSize: number;                      // Memories embedded, analysed and logged together
+    workerPool?: WorkerPool;                // Runs analytics on workers loaded with analyticsWorker
+    onProgress?: (progress: BulkIngestProgress) => void;
+}
+
+export interface BulkIngestProgress {
+    processed: number;
+    total: number;
+    added: number;
+    failed: number;
+}
+
+export interface BulkIngestReport {
+    added: number[];
+    failed: Array<{ id: number; error: string }>;
+}
+
+export class VectorStoreError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'VectorStoreError';
+    }
+}
+
+const MEMORY_TYPES: MemoryType[] = ['episodic', 'semantic', 'procedural', 'emotional'];
+const INITIAL_INDEX_CAPACITY = 1024;
+const MIN_SEARCH_EF = 50;
+const TOMBSTONE_COMPACTION_RATIO = 0.2;
+const CLUSTER_HISTORY_LIMIT = 20;
+const DOMINANT_EMOTION_COUNT = 3;
+const BULK_INGEST_BATCH_SIZE = 64;
+const NAMESPACE_NAME = /^[A-Za-z0-9_-]+$/; // Names become part of file paths
+
+export const DEFAULT_NAMESPACE = 'default';
+
+// HNSW-backed base store: one index per memory type and a metadata table keyed by label.
+// Memory ids double as HNSW labels, so search results map straight back to their records.
+export class VectorStore {
+    protected stores: Map<MemoryType, VectorIndex>;
+    protected records: Map<MemoryType, Map<number, EnhancedMemory>>;
+    protected clusters: Map<MemoryType, Map<number, MemoryCluster>>;
+    protected tombstones: Map<MemoryType, Set<number>>; // Labels marked deleted but still occupying index slots
+    protected quantization: QuantizationConfig | null;  // Compressed indexes replace HNSW when set
+    private nextClusterId: number;
+
+    constructor(
+        protected dimension: number,
+        protected maxElements: number,
+        protected embeddingProvider: EmbeddingProvider,
+        protected clock: Clock = systemClock
+    ) {
+        if (embeddingProvider.dimension !== dimension) {
+            throw new VectorStoreError(
+                `Embedding provider ${embeddingProvider.modelId} produces ${embeddingProvider.dimension}-d vectors, store expects ${dimension}`
+            );
+        }
+        this.stores = new Map();
+        this.records = new Map();
+        this.clusters = new Map();
+        this.tombstones = new Map();
+        this.quantization = null;
+        this.nextClusterId = 0;
+    }
+
+    async addMemory(memory: EnhancedMemory): Promise<number> {
+        await this.ensureVector(memory);
+        this.assertDimension(memory.vector);
+
+        const table = this.getRecordTable(memory.type);
+        const tombstones = this.tombstones.get(memory.type);
+        let index = this.getIndex(memory.type);
+        // Re-adding a tombstoned label revives its slot, so only genuinely new labels need capacity
+        if (!table.has(memory.id) && !tombstones?.has(memory.id)) index = this.ensureCapacity(memory.type, index);
+
+        index.addPoint(Array.from(memory.vector), memory.id);
+        tombstones?.delete(memory.id);
+        table.set(memory.id, memory);
+        this.assignToCluster(memory);
+        return memory.id;
+    }
+
+    async findSimilar(
+        query: string | Float32Array,
+        type: MemoryType,
+        k: number,
+        threshold: number,
+        filter?: MemoryFilter
+    ): Promise<Array<{ memoryId: number; similarity: number }>> {
+        const queryVector = await this.embedQuery(query);
+        return this.searchIndex(queryVector, type, k, threshold, filter && this.createMetadataFilter(type, filter));
+    }
+
+    protected async searchIndex(
+        queryVector: Float32Array,
+        type: MemoryType,
+        k: number,
+        threshold: number,
+        filter?: (label: number) => boolean
+    ): Promise<Array<{ memoryId: number; similarity: number }>> {
+        const index = this.stores.get(type);
+        const liveCount = this.records.get(type)?.size || 0;
+        if (!index || liveCount === 0) return [];
+
+        const numNeighbors = Math.min(k, liveCount);
+        index.setEf(Math.max(numNeighbors * 2, MIN_SEARCH_EF));
+        const { distances, neighbors } = index.searchKnn(Array.from(queryVector), numNeighbors, filter);
+
+        let results = neighbors.map((label, i) => ({ memoryId: label, similarity: 1 - distances[i] }));
+        // Selective filters can starve the graph walk; fall back to an exact scan of the matching records
+        if (filter && results.length < numNeighbors) {
+            results = this.exactSearch(queryVector, type, numNeighbors, filter);
+        }
+        return results.filter(r => r.similarity >= threshold);
+    }
+
+    // Builds a label predicate for searchKnn so metadata filters apply during the HNSW search
+    protected createMetadataFilter(type: MemoryType, filter: MemoryFilter): (label: number) => boolean {
+        const table = this.getRecordTable(type);
+        const cluster = filter.clusterId !== undefined ? this.clusters.get(type)?.get(filter.clusterId) : undefined;
+        const emotions = filter.emotions ? new Set(filter.emotions) : null;
+        const tags = filter.tags ? new Set(filter.tags) : null;
+        const inRange = (value: number, range?: { min?: number; max?: number }) =>
+            !range || ((range.min === undefined || value >= range.min) && (range.max === undefined || value <= range.max));
+
+        return label => {
+            const memory = table.get(label);
+            if (!memory) return false;
+            if (filter.timeRange && !inRange(memory.timestamp, { min: filter.timeRange.start, max: filter.timeRange.end })) return false;
+            if (emotions && !(memory.emotions || []).some(e => emotions.has(e))) return false;
+            if (tags && !memory.aiGeneratedTags.some(t => tags.has(t))) return false;
+            if (!inRange(memory.strength, filter.strength)) return false;
+            if (!inRange(memory.importance, filter.importance)) return false;
+            if (filter.clusterId !== undefined && !cluster?.members.has(label)) return false;
+            return true;
+        };
+    }
+
+    // Rebuilds every index whose tombstones make up at least `ratio` of its slots
+    async compact(ratio: number = TOMBSTONE_COMPACTION_RATIO): Promise<Array<{ type: MemoryType; removed: number }>> {
+        const compacted: Array<{ type: MemoryType; removed: number }> = [];
+        for (const [type, tombstones] of this.tombstones) {
+            const live = this.records.get(type)?.size || 0;
+            if (tombstones.size === 0 || tombstones.size / (live + tombstones.size) < ratio) continue;
+
+            const removed = tombstones.size;
+            this.rebuildIndex(type);
+            compacted.push({ type, removed });
+        }
+        return compacted;
+    }
+
+    // Switches every index to compressed codes (or back to HNSW with null) and rebuilds it from the records.
+    // The setting is persisted with the next save or checkpoint.
+    async configureQuantization(config: Partial<QuantizationConfig> | null): Promise<void> {
+        this.quantization = config ? this.resolveQuantization(config) : null;
+        for (const type of this.stores.keys()) this.rebuildIndex(type);
+    }
+
+    getQuantizationConfig(): QuantizationConfig | null {
+        return this.quantization && { ...this.quantization };
+    }
+
+    // Trains a throwaway compressed index on the type's vectors and measures what it would save and lose.
+    // Queries are stored vectors spread across the table, each excluded from its own results.
+    getQuantizationReport(
+        type: MemoryType,
+        options: { config?: Partial<QuantizationConfig>; queries?: number; k?: number } = {}
+    ): QuantizationReport {
+        const config = options.config ? this.resolveQuantization(options.config) : this.quantization;
+        if (!config) throw new VectorStoreError('No quantization configured');
+
+        const memories = Array.from(this.getRecordTable(type).values());
+        const k = options.k ?? 10;
+        const index = new QuantizedIndex(this.dimension, config, label => this.records.get(type)?.get(label)?.vector);
+        index.initIndex(Math.max(1, memories.length));
+        for (const memory of memories) index.addPoint(Array.from(memory.vector), memory.id);
+        index.train();
+
+        const queryCount = Math.min(options.queries ?? 20, memories.length);
+        let found = 0;
+        let foundReranked = 0;
+        let expected = 0;
+        for (let q = 0; q < queryCount; q++) {
+            const query = memories[Math.floor((q * memories.length) / queryCount)];
+            const others = (label: number) => label !== query.id;
+            const exact = new Set(this.exactSearch(query.vector, type, k, others).map(r => r.memoryId));
+
+            expected += exact.size;
+            found += index.searchCompressed(query.vector, k, others).filter(r => exact.has(r.label)).length;
+            foundReranked += index.searchKnn(Array.from(query.vector), k, others).neighbors.filter(id => exact.has(id)).length;
+        }
+
+        const { codeBytes, parameterBytes } = index.memoryUsage();
+        const fullPrecisionBytes = memories.length * this.dimension * Float32Array.BYTES_PER_ELEMENT;
+        const quantizedBytes = codeBytes + parameterBytes;
+        return {
+            method: config.method,
+            vectors: memories.length,
+            fullPrecisionBytes,
+            quantizedBytes,
+            savedBytes: fullPrecisionBytes - quantizedBytes,
+            compressionRatio: quantizedBytes > 0 ? fullPrecisionBytes / quantizedBytes : 0,
+            k,
+            queries: queryCount,
+            recall: expected > 0 ? found / expected : 1,
+            rerankedRecall: expected > 0 ? foundReranked / expected : 1
+        };
+    }
+
+    async clusterMemories(type: MemoryType, numClusters?: number): Promise<void> {
+        const memories = await this.getAllMemories(type);
+        const previousIds = Array.from(this.clusters.get(type)?.keys() || []);
+        const table = new Map<number, MemoryCluster>();
+        this.clusters.set(type, table);
+        this.onClustersChanged(type, previousIds);
+        if (memories.length === 0) return;
+
+        const k = Math.max(1, Math.min(numClusters || Math.round(Math.sqrt(memories.length / 2)), memories.length));
+        const assignments = this.kMeans(memories.map(m => m.vector), k);
+
+        const now = this.clock.now();
+        for (let c = 0; c < k; c++) {
+            const members = memories.filter((_, i) => assignments[i] === c);
+            if (members.length === 0) continue;
+
+            const cluster = this.createCluster(type, this.calculateCentroid(members.map(m => m.vector)), members.map(m => m.id), now);
+            table.set(cluster.id, cluster);
+        }
+        this.onClustersChanged(type, Array.from(table.keys()));
+    }
+
+    // Folds cluster2 into cluster1 and returns cluster1's id
+    async mergeClusters(type: MemoryType, cluster1: number, cluster2: number): Promise<number> {
+        const table = this.clusters.get(type);
+        const target = table?.get(cluster1);
+        const source = table?.get(cluster2);
+        if (!target || !source || cluster1 === cluster2) {
+            throw new VectorStoreError(`Invalid cluster IDs: ${cluster1}, ${cluster2}`);
+        }
+
+        source.members.forEach(id => target.members.add(id));
+        table!.delete(cluster2);
+        this.refreshCentroid(target);
+        this.recordSnapshot(target);
+        this.onClustersChanged(type, [cluster1, cluster2]);
+        return target.id;
+    }
+
+    // Replaces a cluster with k sub-clusters found by k-means over its members
+    async splitCluster(type: MemoryType, clusterId: number, k: number = 2): Promise<number[]> {
+        const table = this.clusters.get(type);
+        const cluster = table?.get(clusterId);
+        if (!cluster) throw new VectorStoreError(`Invalid cluster ID: ${clusterId}`);
+
+        const memories = await this.getClusterMemories(type, clusterId);
+        if (memories.length < k) {
+            throw new VectorStoreError(`Cluster ${clusterId} has ${memories.length} members, cannot split into ${k}`);
+        }
+
+        let assignments = this.kMeans(memories.map(m => m.vector), k);
+        // Members with identical directions cannot be separated by k-means, so fall back to even chunks
+        if (new Set(assignments).size < k) {
+            assignments = memories.map((_, i) => Math.floor(i * k / memories.length));
+        }
+
+        table!.delete(clusterId);
+        const now = this.clock.now();
+        const ids: number[] = [];
+        for (let c = 0; c < k; c++) {
+            const members = memories.filter((_, i) => assignments[i] === c);
+            const cluster = this.createCluster(type, this.calculateCentroid(members.map(m => m.vector)), members.map(m => m.id), now);
+            table!.set(cluster.id, cluster);
+            ids.push(cluster.id);
+        }
+        this.onClustersChanged(type, [clusterId, ...ids]);
+        return ids;
+    }
+
+    // Moves a memory out of its cluster into the nearest other cluster and returns that cluster's id
+    async reassignMemory(type: MemoryType, memoryId: number): Promise<number> {
+        const memory = await this.getMemory(type, memoryId);
+        const table = this.clusters.get(type);
+        const current = Array.from(table?.values() || []).find(c => c.members.has(memoryId));
+
+        let best: MemoryCluster | null = null;
+        let bestSimilarity = -Infinity;
+        for (const cluster of table?.values() || []) {
+            if (cluster === current) continue;
+            const similarity = this.calculateCosineSimilarity(memory.vector, cluster.centroid);
+            if (similarity > bestSimilarity) {
+                bestSimilarity = similarity;
+                best = cluster;
+            }
+        }
+        if (!best) throw new VectorStoreError(`No other ${type} cluster to reassign memory ${memoryId} to`);
+
+        if (current) {
+            current.members.delete(memoryId);
+            if (current.members.size === 0) table!.delete(current.id);
+            else this.refreshCentroid(current);
+        }
+        best.members.add(memoryId);
+        this.refreshCentroid(best);
+        this.onClustersChanged(type, current ? [current.id, best.id] : [best.id]);
+        return best.id;
+    }
+
+    async getClusterMetadata(type: MemoryType, clusterId: number): Promise<ClusterMetadata> {
+        const cluster = this.clusters.get(type)?.get(clusterId);
+        if (!cluster) throw new VectorStoreError(`Invalid cluster ID: ${clusterId}`);
+
+        const memories = await this.getClusterMemories(type, clusterId);
+        const emotionCounts = new Map<string, number>();
+        memories.forEach(m => m.emotions?.forEach(e => emotionCounts.set(e, (emotionCounts.get(e) || 0) + 1)));
+        const timestamps = memories.map(m => m.timestamp);
+
+        return {
+            size: memories.length,
+            averageStrength: memories.reduce((sum, m) => sum + m.strength, 0) / memories.length || 0,
+            dominantEmotions: Array.from(emotionCounts.entries())
+                .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+                .slice(0, DOMINANT_EMOTION_COUNT)
+                .map(([emotion]) => emotion),
+            timeRange: {
+                start: timestamps.length > 0 ? Math.min(...timestamps) : cluster.createdAt,
+                end: timestamps.length > 0 ? Math.max(...timestamps) : cluster.updatedAt
+            }
+        };
+    }
+
+    // Growth is the relative size change since the oldest retained snapshot; stability is one minus
+    // the mean centroid drift between snapshots, including drift since the latest one
+    async getClusterDynamics(type: MemoryType): Promise<ClusterDynamics> {
+        const clusters = Array.from(this.clusters.get(type)?.values() || []);
+        const dynamics: ClusterDynamics = { growth: [], stability: [], mergeRecommendations: [] };
+
+        for (const cluster of clusters) {
+            const baseline = cluster.history[0];
+            const rate = baseline ? (cluster.members.size - baseline.size) / Math.max(baseline.size, 1) : 0;
+            dynamics.growth.push({ clusterId: cluster.id, rate });
+
+            const drifts = [
+                ...cluster.history.slice(1).map(h => h.drift),
+                1 - this.calculateCosineSimilarity(cluster.centroid, cluster.snapshotCentroid)
+            ];
+            const meanDrift = drifts.reduce((sum, d) => sum + d, 0) / drifts.length;
+            dynamics.stability.push({ clusterId: cluster.id, score: Math.min(1, Math.max(0, 1 - meanDrift)) });
+        }
+
+        for (let i = 0; i < clusters.length; i++) {
+            for (let j = i + 1; j < clusters.length; j++) {
+                const similarity = this.calculateCosineSimilarity(clusters[i].centroid, clusters[j].centroid);
+                if (similarity >= VECTOR_STORE_CONFIG.SIMILARITY_THRESHOLD) {
+                    dynamics.mergeRecommendations.push({ cluster1: clusters[i].id, cluster2: clusters[j].id, similarity });
+                }
+            }
+        }
+        dynamics.mergeRecommendations.sort((a, b) => b.similarity - a.similarity);
+        return dynamics;
+    }
+
+    async save(filepath: string): Promise<void> {
+        await this.saveState(filepath);
+        await writeManifest(filepath, this.snapshotFiles(), {
+            dimension: this.dimension,
+            embeddingModel: this.embeddingProvider.modelId,
+            memoryCounts: Object.fromEntries(Array.from(this.records.entries()).map(([type, table]) => [type, table.size]))
+        }, this.clock);
+    }
+
+    async load(filepath: string): Promise<void> {
+        try {
+            const manifest = await readManifest(filepath);
+            if (manifest) {
+                if (manifest.dimension !== this.dimension) {
+                    throw new VectorStoreError(`Dimension mismatch: snapshot has ${manifest.dimension}, store expects ${this.dimension}`);
+                }
+                if (manifest.embeddingModel !== this.embeddingProvider.modelId) {
+                    throw new VectorStoreError(
+                        `Embedding model mismatch: snapshot was built with ${manifest.embeddingModel}, store uses ${this.embeddingProvider.modelId}`
+                    );
+                }
+                await verifyManifest(filepath, manifest);
+            }
+            await this.loadState(filepath);
+        } catch (error) {
+            throw new VectorStoreError(`Error loading vector store: ${(error as Error).message}`);
+        }
+    }
+
+    // Suffixes of every file saveState() may write, covered by the manifest checksums
+    protected snapshotFiles(): string[] {
+        return ['_metadata', ...MEMORY_TYPES.map(type => `_${type}.hnsw`)];
+    }
+
+    protected async saveState(filepath: string): Promise<void> {
+        for (const [type, index] of this.stores) {
+            await index.writeIndex(`${filepath}_${type}.hnsw`);
+        }
+
+        const data = {
+            dimension: this.dimension,
+            nextClusterId: this.nextClusterId,
+            quantization: this.quantization,
+            tombstones: Array.from(this.tombstones.entries()).map(([type, labels]) => [type, Array.from(labels)]),
+            records: Array.from(this.records.entries()).map(([type, table]) => [
+                type,
+                Array.from(table.values()).map(m => this.serializeMemory(m))
+            ]),
+            clusters: Array.from(this.clusters.entries()).map(([type, table]) => [
+                type,
+                Array.from(table.values()).map(c => this.serializeCluster(c))
+            ])
+        };
+        await writeVersioned(`${filepath}_metadata`, 'vector-store', data);
+    }
+
+    protected async loadState(filepath: string): Promise<void> {
+        const data = await readVersioned(`${filepath}_metadata`, 'vector-store');
+        if (data.dimension !== this.dimension) {
+            throw new VectorStoreError(`Dimension mismatch: snapshot has ${data.dimension}, store expects ${this.dimension}`);
+        }
+
+        // The index files were written by whichever index kind the snapshot was configured for
+        this.quantization = data.quantization ?? null;
+        const stores = new Map<MemoryType, VectorIndex>();
+        const records = new Map<MemoryType, Map<number, EnhancedMemory>>();
+        for (const [type, memories] of data.records as [MemoryType, any[]][]) {
+            const index = this.createIndex(type);
+            await index.readIndex(`${filepath}_${type}.hnsw`);
+            stores.set(type, index);
+            records.set(type, new Map(memories.map(m => [m.id, this.deserializeMemory(m)])));
+        }
+
+        this.stores = stores;
+        this.records = records;
+        this.clusters = new Map(
+            (data.clusters as [MemoryType, any[]][]).map(([type, clusters]) => [
+                type,
+                new Map(clusters.map(c => [c.id, this.deserializeCluster(c)]))
+            ])
+        );
+        this.tombstones = new Map(
+            (data.tombstones as [MemoryType, number[]][]).map(([type, labels]) => [type, new Set(labels)])
+        );
+        this.nextClusterId = data.nextClusterId;
+    }
+
+    protected async getAllMemories(type?: MemoryType): Promise<EnhancedMemory[]> {
+        const types = type ? [type] : MEMORY_TYPES;
+        return types.flatMap(t => Array.from(this.records.get(t)?.values() || []));
+    }
+
+    protected assertDimension(vector: Float32Array): void {
+        if (vector.length !== this.dimension) {
+            throw new VectorStoreError(`Invalid vector dimension: expected ${this.dimension}, got ${vector.length}`);
+        }
+    }
+
+    protected async getMemory(type: MemoryType, id: number): Promise<EnhancedMemory> {
+        const memory = this.records.get(type)?.get(id);
+        if (!memory) throw new VectorStoreError(`Memory ${id} not found in ${type} store`);
+        return memory;
+    }
+
+    async getAllClusters(type?: MemoryType): Promise<Array<MemoryCluster & { metadata: ClusterMetadata }>> {
+        const types = type ? [type] : MEMORY_TYPES;
+        const clusters = types.flatMap(t => Array.from(this.clusters.get(t)?.values() || []));
+        return Promise.all(clusters.map(async cluster => ({
+            ...cluster,
+            metadata: await this.getClusterMetadata(cluster.type, cluster.id)
+        })));
+    }
+
+    // Samples every cluster's size and centroid drift; called periodically to build cluster history
+    protected snapshotClusters(type?: MemoryType): void {
+        const types = type ? [type] : MEMORY_TYPES;
+        types.forEach(t => this.clusters.get(t)?.forEach(cluster => this.recordSnapshot(cluster)));
+    }
+
+    async getClusterMemories(type: MemoryType, clusterId: number): Promise<EnhancedMemory[]> {
+        const cluster = this.clusters.get(type)?.get(clusterId);
+        if (!cluster) return [];
+
+        const table = this.getRecordTable(type);
+        return Array.from(cluster.members)
+            .map(id => table.get(id))
+            .filter((m): m is EnhancedMemory => m !== undefined);
+    }
+
+    // Memories without a vector are embedded from their content
+    protected async ensureVector(memory: EnhancedMemory): Promise<void> {
+        if (!memory.vector || memory.vector.length === 0) {
+            memory.vector = await this.embeddingProvider.embed(memory.content);
+        }
+    }
+
+    protected async embedQuery(query: string | Float32Array): Promise<Float32Array> {
+        return typeof query === 'string' ? this.embeddingProvider.embed(query) : query;
+    }
+
+    private exactSearch(
+        queryVector: Float32Array,
+        type: MemoryType,
+        k: number,
+        filter: (label: number) => boolean
+    ): Array<{ memoryId: number; similarity: number }> {
+        return Array.from(this.getRecordTable(type).values())
+            .filter(m => filter(m.id))
+            .map(m => ({ memoryId: m.id, similarity: this.calculateCosineSimilarity(queryVector, m.vector) }))
+            .sort((a, b) => b.similarity - a.similarity)
+            .slice(0, k);
+    }
+
+    // Marks the label deleted in its HNSW index and drops the record and cluster membership
+    protected removeFromIndex(type: MemoryType, id: number): EnhancedMemory | undefined {
+        const memory = this.records.get(type)?.get(id);
+        if (!memory) return undefined;
+
+        this.stores.get(type)?.markDelete(id);
+        this.records.get(type)!.delete(id);
+        if (!this.tombstones.has(type)) this.tombstones.set(type, new Set());
+        this.tombstones.get(type)!.add(id);
+
+        const clusters = this.clusters.get(type);
+        const changed: number[] = [];
+        for (const [clusterId, cluster] of clusters || []) {
+            if (!cluster.members.delete(id)) continue;
+            changed.push(clusterId);
+            if (cluster.members.size === 0) clusters!.delete(clusterId);
+        }
+        if (changed.length > 0) this.onClustersChanged(type, changed);
+        return memory;
+    }
+
+    protected getIndex(type: MemoryType): VectorIndex {
+        let index = this.stores.get(type);
+        if (!index) {
+            index = this.createIndex(type);
+            index.initIndex(Math.min(this.maxElements, INITIAL_INDEX_CAPACITY));
+            this.stores.set(type, index);
+        }
+        return index;
+    }
+
+    // Grows the index once for `additional` labels, instead of doubling repeatedly during a bulk insert
+    protected reserveCapacity(type: MemoryType, additional: number): void {
+        const index = this.getIndex(type);
+        const needed = Math.min(this.maxElements, index.getCurrentCount() + additional);
+        if (needed > index.getMaxElements()) index.resizeIndex(needed);
+    }
+
+    protected getRecordTable(type: MemoryType): Map<number, EnhancedMemory> {
+        let table = this.records.get(type);
+        if (!table) {
+            table = new Map();
+            this.records.set(type, table);
+        }
+        return table;
+    }
+
+    protected calculateCentroid(vectors: Float32Array[]): Float32Array {
+        const centroid = new Float32Array(this.dimension);
+        for (const vector of vectors) {
+            for (let i = 0; i < this.dimension; i++) centroid[i] += vector[i] / vectors.length;
+        }
+        return centroid;
+    }
+
+    protected calculateCosineSimilarity(vec1: Float32Array, vec2: Float32Array): number {
+        return cosineSimilarity(vec1, vec2);
+    }
+
+    // Called after clusters gain or lose members, merge, split or disappear
+    protected onClustersChanged(type: MemoryType, clusterIds: number[]): void {}
+
+    protected createIndex(type: MemoryType): VectorIndex {
+        if (!this.quantization) return new HierarchicalNSW('cosine', this.dimension);
+        // Re-ranking reads the full-precision vectors from the record table at search time
+        return new QuantizedIndex(this.dimension, this.quantization, label => this.records.get(type)?.get(label)?.vector);
+    }
+
+    private resolveQuantization(config: Partial<QuantizationConfig>): QuantizationConfig {
+        if (!config.method) throw new VectorStoreError('Quantization method is required');
+        const resolved = { ...DEFAULT_QUANTIZATION, ...config } as QuantizationConfig;
+        try {
+            createQuantizer(this.dimension, resolved);
+        } catch (error) {
+            throw new VectorStoreError(`Invalid quantization config: ${(error as Error).message}`);
+        }
+        return resolved;
+    }
+
+    private ensureCapacity(type: MemoryType, index: VectorIndex): VectorIndex {
+        const count = index.getCurrentCount();
+        if (count < index.getMaxElements()) return index;
+        if (count >= this.maxElements) {
+            if (this.tombstones.get(type)?.size) return this.rebuildIndex(type);
+            throw new VectorStoreError(`Capacity of ${this.maxElements} memories reached for ${type} store`);
+        }
+        index.resizeIndex(Math.min(this.maxElements, count * 2));
+        return index;
+    }
+
+    // Re-inserts the live records into a fresh index, dropping every tombstoned slot
+    private rebuildIndex(type: MemoryType): VectorIndex {
+        const table = this.getRecordTable(type);
+        const index = this.createIndex(type);
+        index.initIndex(Math.min(this.maxElements, Math.max(INITIAL_INDEX_CAPACITY, table.size * 2)));
+        for (const memory of table.values()) index.addPoint(Array.from(memory.vector), memory.id);
+
+        this.stores.set(type, index);
+        this.tombstones.set(type, new Set());
+        return index;
+    }
+
+    // New memories join the nearest cluster above the similarity threshold, or seed a new one
+    private assignToCluster(memory: EnhancedMemory): void {
+        let table = this.clusters.get(memory.type);
+        if (!table) {
+            table = new Map();
+            this.clusters.set(memory.type, table);
+        }
+
+        const changed = Array.from(table.values()).filter(cluster => cluster.members.delete(memory.id)).map(cluster => cluster.id);
+
+        let best: MemoryCluster | null = null;
+        let bestSimilarity = VECTOR_STORE_CONFIG.SIMILARITY_THRESHOLD;
+        for (const cluster of table.values()) {
+            if (cluster.members.size === 0) continue;
+            const similarity = this.calculateCosineSimilarity(memory.vector, cluster.centroid);
+            if (similarity >= bestSimilarity) {
+                bestSimilarity = similarity;
+                best = cluster;
+            }
+        }
+
+        const now = this.clock.now();
+        if (!best) {
+            best = this.createCluster(memory.type, Float32Array.from(memory.vector), [], now);
+            table.set(best.id, best);
+        } else {
+            const size = best.members.size;
+            for (let i = 0; i < this.dimension; i++) {
+                best.centroid[i] = (best.centroid[i] * size + memory.vector[i]) / (size + 1);
+            }
+        }
+
+        best.members.add(memory.id);
+        best.updatedAt = now;
+
+        for (const [id, cluster] of table) {
+            if (cluster.members.size === 0) table.delete(id);
+        }
+        this.onClustersChanged(memory.type, [...changed, best.id]);
+    }
+
+    private createCluster(type: MemoryType, centroid: Float32Array, members: number[], now: number): MemoryCluster {
+        return {
+            id: this.nextClusterId++,
+            type,
+            centroid,
+            members: new Set(members),
+            createdAt: now,
+            updatedAt: now,
+            history: [{ timestamp: now, size: members.length, drift: 0 }],
+            snapshotCentroid: Float32Array.from(centroid)
+        };
+    }
+
+    private recordSnapshot(cluster: MemoryCluster): void {
+        const now = this.clock.now();
+        cluster.history.push({
+            timestamp: now,
+            size: cluster.members.size,
+            drift: 1 - this.calculateCosineSimilarity(cluster.centroid, cluster.snapshotCentroid)
+        });
+        if (cluster.history.length > CLUSTER_HISTORY_LIMIT) cluster.history.shift();
+        cluster.snapshotCentroid = Float32Array.from(cluster.centroid);
+        cluster.updatedAt = now;
+    }
+
+    private refreshCentroid(cluster: MemoryCluster): void {
+        const table = this.getRecordTable(cluster.type);
+        const vectors = Array.from(cluster.members)
+            .map(id => table.get(id)?.vector)
+            .filter((v): v is Float32Array => v !== undefined);
+        if (vectors.length > 0) cluster.centroid = this.calculateCentroid(vectors);
+        cluster.updatedAt = this.clock.now();
+    }
+
+    // Seeds with the first vector and then the vectors least similar to the chosen seeds, so
+    // well-separated groups start in different clusters; returns a cluster index per vector
+    private kMeans(vectors: Float32Array[], k: number): number[] {
+        const centroids: Float32Array[] = [Float32Array.from(vectors[0])];
+        const seedSimilarity = vectors.map(v => this.calculateCosineSimilarity(v, centroids[0]));
+        while (centroids.length < k) {
+            let farthest = 0;
+            seedSimilarity.forEach((similarity, i) => {
+                if (similarity < seedSimilarity[farthest]) farthest = i;
+            });
+            const seed = Float32Array.from(vectors[farthest]);
+            centroids.push(seed);
+            vectors.forEach((v, i) => {
+                seedSimilarity[i] = Math.max(seedSimilarity[i], this.calculateCosineSimilarity(v, seed));
+            });
+        }
+
+        let assignments = new Array<number>(vectors.length).fill(-1);
+        for (let iteration = 0; iteration < 10; iteration++) {
+            const next = vectors.map(v => this.nearestCentroid(v, centroids));
+            const converged = next.every((c, i) => c === assignments[i]);
+            assignments = next;
+            if (converged) break;
+
+            for (let c = 0; c < k; c++) {
+                const members = vectors.filter((_, i) => assignments[i] === c);
+                if (members.length > 0) centroids[c] = this.calculateCentroid(members);
+            }
+        }
+        return assignments;
+    }
+
+    private nearestCentroid(vector: Float32Array, centroids: Float32Array[]): number {
+        let best = 0;
+        let bestSimilarity = -Infinity;
+        centroids.forEach((centroid, i) => {
+            const similarity = this.calculateCosineSimilarity(vector, centroid);
+            if (similarity > bestSimilarity) {
+                bestSimilarity = similarity;
+                best = i;
+            }
+        });
+        return best;
+    }
+
+    private serializeCluster(cluster: MemoryCluster): any {
+        return {
+            ...cluster,
+            centroid: Array.from(cluster.centroid),
+            members: Array.from(cluster.members),
+            snapshotCentroid: Array.from(cluster.snapshotCentroid)
+        };
+    }
+
+    // Snapshots saved before cluster history existed start with an empty history
+    private deserializeCluster(data: any): MemoryCluster {
+        const centroid = Float32Array.from(data.centroid as number[]);
+        return {
+            ...data,
+            centroid,
+            members: new Set(data.members),
+            history: data.history || [],
+            snapshotCentroid: data.snapshotCentroid ? Float32Array.from(data.snapshotCentroid as number[]) : Float32Array.from(centroid)
+        };
+    }
+
+    protected serializeMemory(memory: EnhancedMemory): any {
+        return {
+            ...memory,
+            vector: Array.from(memory.vector),
+            neuralWeights: memory.neuralWeights ? Array.from(memory.neuralWeights) : undefined
+        };
+    }
+
+    protected deserializeMemory(data: any): EnhancedMemory {
+        return {
+            ...data,
+            vector: Float32Array.from(data.vector),
+            neuralWeights: data.neuralWeights ? Float32Array.from(data.neuralWeights) : undefined
+        };
+    }
 }
 
 export class EnhancedVectorStore extends VectorStore {
-    private cache: MemoryCache;
+    readonly cache: MemoryCache;
     private partitioner: DatasetPartitioner;
+    private archive: MemoryArchive;
+    private lexicalIndexes: Map<MemoryType, LexicalIndex>;
+    private timelines: Map<MemoryType, TimelineIndex>;
+    private graph: MemoryGraph;
+    private mergeHistory: MergeHistory;
     private predictiveAnalytics: PredictiveAnalytics;
     private decayConfig: DecayConfig;
+    private decayModels: Map<string, DecayModel>;
     private aiConfig: AIConfig;
+    private persistenceConfig: PersistenceConfig;
+    private persistencePath: string | null;
+    private wal: WriteAheadLog | null;
+    private checkpointSequence: number;
+    private checkpointing: Promise<void> | null;
+    private applying: Set<Promise<unknown>>;
+    private events: EventBus<StoreEvents>;
+    readonly maintenance: MaintenanceScheduler;
     private lastMaintenanceRun: number;
-    private anomalyLog: { timestamp: number; type: string; value: number }[];
+    private anomalyLog: AnomalyEvent[];
+    private namespaces: Map<string, EnhancedVectorStore>;
+    private namespaceName: string;
 
     constructor(
         dimension: number = VECTOR_STORE_CONFIG.DIMENSION,
         maxElements: number = VECTOR_STORE_CONFIG.MAX_ELEMENTS,
-        embeddingEndpoint: string = process.env.EMBEDDING_API_ENDPOINT || 'https://api.example.com/embed',
-        apiKey: string = process.env.GOOGLE_GENERATIVE_AI_API_KEY || 'default-key'
+        embeddingProvider: EmbeddingProvider = new LocalEmbeddingProvider(dimension),
+        clock: Clock = systemClock
     ) {
-        super(dimension, maxElements, embeddingEndpoint, apiKey);
-
-        this.cache = new MemoryCache(MEMORY_CONFIG.CACHE_SIZE || 1000);
-        this.partitioner = new DatasetPartitioner(MEMORY_CONFIG.PARTITION_SIZE || 5000);
-        this.predictiveAnalytics = new PredictiveAnalytics();
+        super(dimension, maxElements, embeddingProvider, clock);
+
+        this.cache = new MemoryCache({ maxEntries: MEMORY_CONFIG.CACHE_SIZE || 1000 }, clock);
+        this.partitioner = new DatasetPartitioner({ maxPartitionSize: MEMORY_CONFIG.PARTITION_SIZE }, clock);
+        this.predictiveAnalytics = new PredictiveAnalytics({}, clock);
+        this.archive = new MemoryArchive(clock);
+        this.lexicalIndexes = new Map();
+        this.timelines = new Map();
+        this.graph = new MemoryGraph(clock);
+        this.mergeHistory = new MergeHistory();
+        this.predictiveAnalytics.setRelationshipGraph(this.graph);
 
         this.decayConfig = {
             baseRate: 0.1,
             accessBoost: 0.05,
             importanceMultiplier: 1.5,
             minStrength: MEMORY_CONFIG.MIN_STRENGTH,
-            adaptiveFactor: 0.01 // New: Adjust decay dynamically
+            adaptiveFactor: 0.01, // New: Adjust decay dynamically
+            model: 'linear',
+            models: {}
         };
+        this.decayModels = createDefaultDecayModels();
 
         this.aiConfig = {
             predictionThreshold: 0.7,
             contextWindow: 10,
             semanticSimilarityThreshold: 0.8,
-            neuralLayerSize: 128 // New: Neural weighting layer size
+            neuralLayerSize: 128, // New: Neural weighting layer size
+            neuralSeed: 42,
+            neuralLearningRate: 0.5,
+            relatedMemoryCount: 5,
+            sequenceWindow: 60 * 60 * 1000
         };
 
-        this.lastMaintenanceRun = Date.now();
+        this.persistenceConfig = {
+            checkpointInterval: 1000,
+            fsync: true
+        };
+        this.persistencePath = null;
+        this.wal = null;
+        this.checkpointSequence = 0;
+        this.checkpointing = null;
+        this.applying = new Set();
+
+        this.events = new EventBus();
+        this.lastMaintenanceRun = this.clock.now();
         this.anomalyLog = [];
-        this.initializeMaintenanceSchedule();
+        this.namespaces = new Map();
+        this.namespaceName = DEFAULT_NAMESPACE;
+        this.maintenance = this.createMaintenanceScheduler();
+        this.maintenance.start();
+    }
+
+    // Stops scheduled maintenance, here and in every namespace, and waits for runs in progress
+    async dispose(): Promise<void> {
+        await Promise.all([...this.namespaces.values()].map(store => store.dispose()));
+        await this.maintenance.dispose();
+        this.cache.dispose();
+    }
+
+    // Subscribes to a lifecycle event; returns a function that removes the subscription
+    on<K extends keyof StoreEvents>(event: K, handler: EventHandler<StoreEvents[K]>): () => void {
+        return this.events.on(event, handler);
+    }
+
+    once<K extends keyof StoreEvents>(event: K, handler: EventHandler<StoreEvents[K]>): () => void {
+        return this.events.once(event, handler);
     }
 
-    private initializeMaintenanceSchedule(): void {
-        setInterval(async () => {
-            const needsMaintenance = await this.checkMaintenanceTriggers();
-            if (needsMaintenance) await this.runMaintenance();
-        }, MEMORY_CONFIG.MAINTENANCE_INTERVAL || 3600000); // Default 1 hour
+    off<K extends keyof StoreEvents>(event: K, handler: EventHandler<StoreEvents[K]>): void {
+        this.events.off(event, handler);
+    }
+
+    private createMaintenanceScheduler(): MaintenanceScheduler {
+        return new MaintenanceScheduler(
+            [
+                { name: 'decay', run: () => this.applyMemoryDecay() },
+                { name: 'consolidate', run: async () => ({ merged: await this.consolidateMemories() }) },
+                { name: 'predictions', run: () => this.updatePredictions() },
+                {
+                    name: 'indexes',
+                    run: async () => {
+                        await this.optimizeIndexes();
+                        this.snapshotClusters();
+                    }
+                },
+                { name: 'decay-rates', run: () => this.adjustDecayRates() },
+                // Decay and prediction updates touch every memory, so they are persisted by checkpoint, not logged
+                { name: 'checkpoint', run: async () => { if (this.persistencePath) await this.checkpoint(); } }
+            ],
+            { interval: MEMORY_CONFIG.MAINTENANCE_INTERVAL || 3600000 }, // Default 1 hour
+            {
+                shouldRun: () => this.checkMaintenanceTriggers(),
+                onProgress: progress => this.events.emit('maintenanceProgress', progress),
+                onComplete: report => {
+                    this.lastMaintenanceRun = report.startedAt + report.duration;
+                    this.events.emit('maintenanceCompleted', {
+                        startedAt: report.startedAt,
+                        duration: report.duration,
+                        decayed: report.counts.decayed || 0,
+                        archived: report.counts.archived || 0,
+                        merged: report.counts.merged || 0
+                    });
+                }
+            },
+            this.clock
+        );
     }
 
     private async checkMaintenanceTriggers(): Promise<boolean> {
         const memories = await this.getAllMemories();
         const avgStrength = memories.reduce((sum, m) => sum + m.strength, 0) / memories.length;
-        const accessRate = memories.reduce((sum, m) => sum + m.accessCount, 0) / (Date.now() - this.lastMaintenanceRun);
+        const accessRate = memories.reduce((sum, m) => sum + m.accessCount, 0) / (this.clock.now() - this.lastMaintenanceRun);
 
         const strengthAnomaly = avgStrength < this.decayConfig.minStrength * 2;
         const accessAnomaly = accessRate > 1000; // Arbitrary high access rate threshold
 
-        if (strengthAnomaly) this.anomalyLog.push({ timestamp: Date.now(), type: 'low_strength', value: avgStrength });
-        if (accessAnomaly) this.anomalyLog.push({ timestamp: Date.now(), type: 'high_access', value: accessRate });
+        if (strengthAnomaly) this.logAnomaly('low_strength', avgStrength);
+        if (accessAnomaly) this.logAnomaly('high_access', accessRate);
 
-        return strengthAnomaly || accessAnomaly || (Date.now() - this.lastMaintenanceRun > 24 * 60 * 60 * 1000);
+        return strengthAnomaly || accessAnomaly || (this.clock.now() - this.lastMaintenanceRun > 24 * 60 * 60 * 1000);
     }
 
-    private async runMaintenance(): Promise<void> {
-        try {
-            await this.applyMemoryDecay();
-            await this.consolidateMemories();
-            await this.updatePredictions();
-            await this.optimizeIndexes();
-            await this.adjustDecayRates();
-            this.lastMaintenanceRun = Date.now();
-        } catch (error) {
-            console.error('Maintenance error:', error);
+    private logAnomaly(type: string, value: number): void {
+        const anomaly: AnomalyEvent = { timestamp: this.clock.now(), type, value };
+        this.anomalyLog.push(anomaly);
+        this.events.emit('anomaly', anomaly);
+    }
+
+    private async runMaintenance(): Promise<MaintenanceReport> {
+        return this.maintenance.runNow();
+    }
+
+    // Adds a decay model that configureDecay can select by name, replacing any model of the same name
+    registerDecayModel(model: DecayModel): void {
+        this.decayModels.set(model.name, model);
+    }
+
+    configureDecay(config: Partial<DecayConfig>): void {
+        const next = { ...this.decayConfig, ...config, models: { ...this.decayConfig.models, ...config.models } };
+        for (const name of [next.model, ...Object.values(next.models)]) {
+            if (name && !this.decayModels.has(name)) throw new VectorStoreError(`Unknown decay model: ${name}`);
         }
+        this.decayConfig = next;
+    }
+
+    getDecayModel(type: MemoryType): DecayModel {
+        return this.decayModels.get(this.decayConfig.models[type] || this.decayConfig.model)!;
     }
 
-    private async applyMemoryDecay(): Promise<void> {
-        const now = Date.now();
+    private async applyMemoryDecay(): Promise<{ decayed: number; archived: number }> {
+        const now = this.clock.now();
         const memories = await this.getAllMemories();
+        let decayed = 0;
+        let archived = 0;
 
         for (const memory of memories) {
-            const timeSinceLastAccess = now - memory.lastAccessed;
-            const accessFactor = Math.exp(-memory.accessCount * this.decayConfig.accessBoost);
-            const importanceFactor = memory.importance * this.decayConfig.importanceMultiplier;
+            const previousStrength = memory.strength;
+            this.decayMemory(memory, now);
+            if (memory.strength < previousStrength) {
+                decayed++;
+                await this.invalidateCachedMemory(memory.type, memory.id);
+                this.events.emit('memoryDecayed', { memory, previousStrength });
+            }
+
+            if (memory.strength <= this.decayConfig.minStrength) {
+                await this.archiveMemory(memory, 'decayed');
+                archived++;
+            }
+        }
+        return { decayed, archived };
+    }
 
-            const decayAmount = memory.decayRate * 
-                timeSinceLastAccess / (1000 * 60 * 60 * 24) * 
-                accessFactor / importanceFactor;
+    private decayMemory(memory: EnhancedMemory, now: number): void {
+        const sinceAccess = Math.max(0, now - memory.lastAccessed);
+        const elapsed = Math.min(sinceAccess, now - (memory.lastDecayed ?? 0));
+        const strength = this.getDecayModel(memory.type).decay(memory, elapsed, sinceAccess, this.decayConfig);
 
-            memory.strength = Math.max(this.decayConfig.minStrength, memory.strength - decayAmount);
+        memory.strength = Math.max(this.decayConfig.minStrength, Math.min(memory.strength, strength));
+        memory.lastDecayed = now;
+    }
 
-            if (memory.strength <= this.decayConfig.minStrength) {
-                await this.archiveMemory(memory);
+    // Projects strength over the next `horizon` ms without touching stored memories. Decay is
+    // applied every `resolution` ms (the maintenance interval by default) and at each scenario access.
+    async simulateDecay(
+        type: MemoryType,
+        target: number[] | number,
+        horizon: number,
+        scenario: AccessScenario = {},
+        resolution: number = this.maintenance.interval
+    ): Promise<DecayProjection[]> {
+        const durations: Array<[string, number | undefined]> = [
+            ['horizon', horizon], ['resolution', resolution], ['accessInterval', scenario.accessInterval]
+        ];
+        for (const [name, value] of durations) {
+            if (value !== undefined && !(Number.isFinite(value) && value > 0)) {
+                throw new VectorStoreError(`Invalid ${name}: ${value} (expected a positive number of ms)`);
             }
         }
+        if (!Array.isArray(target) && !this.clusters.get(type)?.has(target)) {
+            throw new VectorStoreError(`Invalid cluster ID: ${target}`);
+        }
+        const memories = Array.isArray(target)
+            ? await Promise.all(target.map(id => this.getMemory(type, id)))
+            : await this.getClusterMemories(type, target);
+
+        const now = this.clock.now();
+        const accesses = new Set(scenario.accessTimes || []);
+        if (scenario.accessInterval) {
+            for (let t = scenario.accessInterval; t <= horizon; t += scenario.accessInterval) accesses.add(t);
+        }
+        const steps = new Set(accesses);
+        for (let t = resolution; t < horizon; t += resolution) steps.add(t);
+        steps.add(horizon);
+        const offsets = Array.from(steps).filter(t => t > 0 && t <= horizon).sort((a, b) => a - b);
+
+        return memories.map(original => {
+            const memory: EnhancedMemory = { ...original };
+            const curve = [{ time: now, strength: memory.strength }];
+            let archiveAt: number | null = memory.strength <= this.decayConfig.minStrength ? now : null;
+
+            for (const offset of offsets) {
+                if (archiveAt !== null) break;
+                const time = now + offset;
+                this.decayMemory(memory, time);
+                curve.push({ time, strength: memory.strength });
+                if (memory.strength <= this.decayConfig.minStrength) {
+                    archiveAt = time;
+                } else if (accesses.has(offset)) {
+                    memory.accessCount++;
+                    memory.lastAccessed = time;
+                }
+            }
+
+            return { memoryId: memory.id, model: this.getDecayModel(type).name, curve, archiveAt };
+        });
     }
 
-    private async consolidateMemories(): Promise<void> {
+    // Returns the number of memories folded into another
+    private async consolidateMemories(): Promise<number> {
         const clusters = await this.getAllClusters();
+        let merged = 0;
         for (const cluster of clusters) {
             const memories = await this.getClusterMemories(cluster.type, cluster.id);
             const similarMemories = this.findSimilarMemoriesInCluster(memories);
@@ -144,27 +1207,42 @@ export class EnhancedVectorStore extends VectorStore {
             for (const group of similarMemories) {
                 if (group.length > 1) {
                     await this.mergeMemoryGroup(group);
+                    merged += group.length - 1;
                 }
             }
         }
+        return merged;
     }
 
     private async updatePredictions(): Promise<void> {
         const memories = await this.getAllMemories();
         for (const memory of memories) {
-            memory.predictedRelevance = await this.predictiveAnalytics.predictRelevance(memory);
-            memory.aiGeneratedTags = await this.predictiveAnalytics.generateTags(memory);
-            memory.semanticContext = await this.predictiveAnalytics.analyzeContext(memory);
-            memory.importance = this.calculateImportance(memory);
-            memory.neuralWeights = this.updateNeuralWeights(memory); // New: Neural weights
+            await this.analyzeMemory(memory);
+            this.indexLexical(memory);
+            await this.invalidateCachedMemory(memory.type, memory.id);
         }
     }
 
+    private async rebalancePartitions(type: MemoryType): Promise<void> {
+        const records = this.getRecordTable(type);
+        await this.partitioner.rebalancePartitions({
+            getVector: (id: number) => records.get(id)!.vector,
+            getMemoryType: () => type
+        }, type);
+        this.cache.invalidateQueries(type);
+    }
+
+    async configureQuantization(config: Partial<QuantizationConfig> | null): Promise<void> {
+        await super.configureQuantization(config);
+        for (const type of this.stores.keys()) this.cache.invalidateQueries(type);
+    }
+
     private async optimizeIndexes(): Promise<void> {
-        for (const [type, store] of this.stores) {
-            await this.partitioner.rebalancePartitions(store, this.getPartitionDensityMetrics(type));
-            await this.cache.optimizeCache(type);
+        for (const type of this.stores.keys()) {
+            await this.rebalancePartitions(type);
         }
+        await this.cache.optimizeCache();
+        await this.compact();
     }
 
     // New: Generate telemetry data for visualization
@@ -180,58 +1258,335 @@ export class EnhancedVectorStore extends VectorStore {
             memoryCount: memories.length,
             decayCurve,
             partitionStats,
-            anomalyEvents: this.anomalyLog.filter(e => e.timestamp > Date.now() - 24 * 60 * 60 * 1000)
+            anomalyEvents: this.anomalyLog.filter(e => e.timestamp > this.clock.now() - 24 * 60 * 60 * 1000)
         };
     }
 
     async addMemory(memory: EnhancedMemory): Promise<number> {
         try {
-            memory.predictedRelevance = await this.predictiveAnalytics.predictRelevance(memory);
-            memory.aiGeneratedTags = await this.predictiveAnalytics.generateTags(memory);
-            memory.semanticContext = await this.predictiveAnalytics.analyzeContext(memory);
-            memory.importance = this.calculateImportance(memory);
-            memory.neuralWeights = this.updateNeuralWeights(memory);
+            await this.ensureVector(memory);
+            this.assertDimension(memory.vector);
+            await this.analyzeMemory(memory);
             memory.decayRate = MEMORY_CONFIG.DECAY_RATE[memory.type] || this.decayConfig.baseRate;
 
-            const cachedId = await this.cache.add(memory);
-            if (cachedId !== null) return cachedId;
+            const vectorId = await this.commitMutation('add', { memory: this.serializeMemory(memory) }, () => this.putMemory(memory));
+            this.events.emit('memoryAdded', { memory });
+            return vectorId;
+        } catch (error) {
+            console.error('Error adding memory:', error);
+            throw error;
+        }
+    }
 
-            const partition = this.partitioner.getOptimalPartition(memory, this.getPartitionDensityMetrics(memory.type));
-            const vectorId = await super.addMemory(memory);
+    // Bulk counterpart of addMemory. Each chunk is embedded in one call, analysed concurrently (on the
+    // worker pool when given), indexed after a single capacity reservation and logged as one entry.
+    // Memories that fail are reported and skipped; partitions are rebalanced once at the end.
+    async addMemories(batch: EnhancedMemory[], options: Partial<BulkIngestOptions> = {}): Promise<BulkIngestReport> {
+        const batchSize = Math.max(1, options.batchSize ?? BULK_INGEST_BATCH_SIZE);
+        const report: BulkIngestReport = { added: [], failed: [] };
+        const fail = (memory: EnhancedMemory, error: unknown) => {
+            report.failed.push({ id: memory.id, error: error instanceof Error ? error.message : String(error) });
+        };
+        const touched = new Set<MemoryType>();
+
+        for (let start = 0; start < batch.length; start += batchSize) {
+            const chunk = await this.embedChunk(batch.slice(start, start + batchSize), fail);
+            const analysed = await Promise.all(chunk.map(async memory => {
+                try {
+                    this.assertDimension(memory.vector);
+                    await this.analyzeMemory(memory, options.workerPool);
+                    memory.decayRate = MEMORY_CONFIG.DECAY_RATE[memory.type] || this.decayConfig.baseRate;
+                    return memory;
+                } catch (error) {
+                    fail(memory, error);
+                    return null;
+                }
+            }));
 
-            await this.updateRelatedMemories(memory, vectorId);
-            await this.optimizeLocalIndex(partition);
+            const ready = analysed.filter((m): m is EnhancedMemory => m !== null);
+            for (const type of new Set(ready.map(m => m.type))) {
+                this.reserveCapacity(type, ready.filter(m => m.type === type).length);
+            }
 
-            return vectorId;
+            const inserted: EnhancedMemory[] = [];
+            if (ready.length > 0) {
+                await this.commitMutation('add-batch', { memories: ready.map(m => this.serializeMemory(m)) }, async () => {
+                    for (const memory of ready) {
+                        try {
+                            report.added.push(await this.putMemory(memory));
+                            inserted.push(memory);
+                            touched.add(memory.type);
+                        } catch (error) {
+                            fail(memory, error);
+                        }
+                    }
+                });
+            }
+            inserted.forEach(memory => this.events.emit('memoryAdded', { memory }));
+            options.onProgress?.({
+                processed: Math.min(start + batchSize, batch.length),
+                total: batch.length,
+                added: report.added.length,
+                failed: report.failed.length
+            });
+        }
+
+        for (const type of touched) await this.rebalancePartitions(type);
+        return report;
+    }
+
+    // Embeds the chunk's vectorless memories with one embedBatch call. If the batch call fails they are
+    // embedded one by one, so a bad input only fails its own memory.
+    private async embedChunk(
+        chunk: EnhancedMemory[],
+        fail: (memory: EnhancedMemory, error: unknown) => void
+    ): Promise<EnhancedMemory[]> {
+        const pending = chunk.filter(m => !m.vector || m.vector.length === 0);
+        if (pending.length > 0) {
+            try {
+                const vectors = await this.embeddingProvider.embedBatch(pending.map(m => m.content));
+                pending.forEach((memory, i) => {
+                    memory.vector = vectors[i];
+                });
+            } catch {
+                // Fall through to per-memory embedding below
+            }
+        }
+
+        const embedded: EnhancedMemory[] = [];
+        for (const memory of chunk) {
+            try {
+                await this.ensureVector(memory);
+                embedded.push(memory);
+            } catch (error) {
+                fail(memory, error);
+            }
+        }
+        return embedded;
+    }
+
+    // Applies `changes` to a copy of a stored memory; new content without a new vector is re-embedded and
+    // re-analysed. The copy replaces the stored record only once it is indexed, so a rejected update leaves it intact.
+    async updateMemory(
+        type: MemoryType,
+        id: number,
+        changes: Partial<Omit<EnhancedMemory, 'id' | 'type'>>
+    ): Promise<EnhancedMemory> {
+        try {
+            const current = await this.getMemory(type, id);
+            const contentChanged = changes.content !== undefined && changes.content !== current.content;
+            const memory: EnhancedMemory = { ...current, ...changes };
+
+            if (contentChanged && !changes.vector) {
+                memory.vector = new Float32Array(0);
+                await this.ensureVector(memory);
+                await this.analyzeMemory(memory);
+            }
+            this.assertDimension(memory.vector);
+
+            await this.commitMutation('update', { memory: this.serializeMemory(memory) }, () => this.putMemory(memory));
+            return memory;
         } catch (error) {
-            console.error('Error adding memory:', error);
+            console.error('Error updating memory:', error);
             throw error;
         }
     }
 
+    // Removes an active or archived memory; its HNSW slot is reclaimed by the next compact()
+    async deleteMemory(type: MemoryType, id: number): Promise<boolean> {
+        if (!this.resolveMemory(type, id)) return false;
+        await this.commitMutation('delete', { type, id }, () => this.removeMemory(type, id));
+        return true;
+    }
+
+    // Indexes a fully analysed memory in every active structure, replacing any previous version.
+    // Shared by live mutations and log replay, so it must not re-run analytics or embedding.
+    private async putMemory(memory: EnhancedMemory): Promise<number> {
+        const vectorId = await super.addMemory(memory);
+        this.partitioner.removeMember(memory.id, memory.type);
+        const partition = await this.partitioner.getOptimalPartition(memory);
+        this.indexLexical(memory);
+        this.indexTimeline(memory);
+
+        await this.updateRelatedMemories(memory, vectorId);
+        await this.invalidateCachedMemory(memory.type, memory.id, partition);
+        return vectorId;
+    }
+
+    private async removeMemory(type: MemoryType, id: number): Promise<boolean> {
+        const memory = this.removeFromIndex(type, id);
+        if (!memory) {
+            if (!this.archive.remove(type, id)) return false;
+            this.graph.removeNode(type, id);
+            this.mergeHistory.remove(type, id);
+            return true;
+        }
+
+        this.graph.removeNode(type, id);
+        this.mergeHistory.remove(type, id);
+        this.partitioner.removeMember(id, type);
+        this.lexicalIndexes.get(type)?.remove(id);
+        this.timelines.get(type)?.remove(id);
+        await this.invalidateCachedMemory(memory.type, memory.id);
+        return true;
+    }
+
     async findSimilar(
         query: string | Float32Array,
         type: MemoryType,
         k: number = 5,
-        threshold: number = VECTOR_STORE_CONFIG.SIMILARITY_THRESHOLD
+        threshold: number = VECTOR_STORE_CONFIG.SIMILARITY_THRESHOLD,
+        filter?: MemoryFilter
     ): Promise<Array<{ memoryId: number; similarity: number }>> {
-        const cachedResults = await this.cache.getSimilar(query, type, k);
-        if (cachedResults) return cachedResults;
-
-        const relevantPartitions = this.partitioner.getRelevantPartitions(query, type);
-        const results = await Promise.all(
-            relevantPartitions.map(partition => 
-                super.findSimilar(query, type, k, threshold, partition)
-            )
-        );
+        const queryVector = await this.embedQuery(query);
+        let results: Array<Array<{ memoryId: number; similarity: number }>>;
+        let scope: QueryScope | undefined;
+        if (filter) {
+            // Partition routing is only a speed-up; with filters it would drop matching memories outside the routed partitions
+            results = [await this.searchIndex(queryVector, type, k, threshold, this.createSearchPredicate(type, filter))];
+        } else {
+            const relevantPartitions = this.partitioner.getRelevantPartitions(queryVector, type);
+            // Near-identical queries routed to the same partitions reuse the cached neighbours and skip HNSW
+            scope = { k, threshold, partitions: relevantPartitions };
+            const cachedResults = await this.cache.getSimilar(queryVector, type, scope);
+            if (cachedResults) return cachedResults;
+
+            results = relevantPartitions.length > 0
+                ? await Promise.all(
+                    relevantPartitions.map(partition =>
+                        this.searchIndex(queryVector, type, k, threshold, label => this.partitioner.hasMember(partition, label))
+                    )
+                )
+                : [await this.searchIndex(queryVector, type, k, threshold)];
+        }
 
         const mergedResults = this.mergeSearchResults(results, k);
         const weightedResults = await this.applyNeuralWeights(mergedResults, query, type);
 
-        await this.cache.storeSimilarityResults(query, type, weightedResults);
+        if (scope) await this.cache.storeSimilarityResults(queryVector, type, weightedResults, scope);
         return weightedResults;
     }
 
+    // Fuses BM25 over content, tags and semantic context with HNSW similarity, so exact names,
+    // ids and rare terms are found even when the embedding misses them
+    async hybridSearch(
+        query: string,
+        type: MemoryType,
+        k: number = 5,
+        options: HybridSearchOptions = {}
+    ): Promise<HybridSearchResult[]> {
+        const { fusion = 'rrf', vectorWeight = 0.5, rrfK = 60, filter } = options;
+        const candidates = Math.max(options.candidates || k * 4, k);
+
+        const vectorResults = await this.findSimilar(query, type, candidates, -1, filter);
+        const lexicalResults = this.lexicalIndexes.get(type)?.search(
+            query,
+            candidates,
+            filter && this.createSearchPredicate(type, filter)
+        ) || [];
+
+        const fused = new Map<number, HybridSearchResult>();
+        const entry = (memoryId: number) => {
+            let result = fused.get(memoryId);
+            if (!result) {
+                result = { memoryId, score: 0 };
+                fused.set(memoryId, result);
+            }
+            return result;
+        };
+
+        if (fusion === 'rrf') {
+            vectorResults.forEach((r, rank) => {
+                const result = entry(r.memoryId);
+                result.vectorSimilarity = r.similarity;
+                result.score += 1 / (rrfK + rank + 1);
+            });
+            lexicalResults.forEach((r, rank) => {
+                const result = entry(r.id);
+                result.lexicalScore = r.score;
+                result.score += 1 / (rrfK + rank + 1);
+            });
+        } else {
+            const vectorScores = this.normalizeScores(vectorResults.map(r => r.similarity));
+            const lexicalScores = this.normalizeScores(lexicalResults.map(r => r.score));
+            vectorResults.forEach((r, i) => {
+                const result = entry(r.memoryId);
+                result.vectorSimilarity = r.similarity;
+                result.score += vectorWeight * vectorScores[i];
+            });
+            lexicalResults.forEach((r, i) => {
+                const result = entry(r.id);
+                result.lexicalScore = r.score;
+                result.score += (1 - vectorWeight) * lexicalScores[i];
+            });
+        }
+
+        return Array.from(fused.values())
+            .sort((a, b) => b.score - a.score || a.memoryId - b.memoryId)
+            .slice(0, k);
+    }
+
+    private createSearchPredicate(type: MemoryType, filter: MemoryFilter): (label: number) => boolean {
+        const matches = this.createMetadataFilter(type, filter);
+        const partition = filter.partition;
+        return partition
+            ? label => this.partitioner.hasMember(partition, label) && matches(label)
+            : matches;
+    }
+
+    // Min-max scaling to [0, 1]; a single distinct score maps to 1
+    private normalizeScores(scores: number[]): number[] {
+        const min = Math.min(...scores);
+        const max = Math.max(...scores);
+        return scores.map(score => max > min ? (score - min) / (max - min) : 1);
+    }
+
+    private indexLexical(memory: EnhancedMemory): void {
+        let index = this.lexicalIndexes.get(memory.type);
+        if (!index) {
+            index = new LexicalIndex();
+            this.lexicalIndexes.set(memory.type, index);
+        }
+        index.add(memory.id, [memory.content, ...memory.aiGeneratedTags, ...memory.semanticContext].join(' '));
+    }
+
+    private indexTimeline(memory: EnhancedMemory): void {
+        let timeline = this.timelines.get(memory.type);
+        if (!timeline) {
+            timeline = new TimelineIndex();
+            this.timelines.set(memory.type, timeline);
+        }
+        timeline.add(memory.id, memory.timestamp);
+    }
+
+    private async analyzeMemory(memory: EnhancedMemory, workerPool?: WorkerPool): Promise<void> {
+        // A failed or timed-out worker task falls back to in-process analysis
+        const analysis = workerPool
+            ? await workerPool.executeTask<MemoryAnalysis>(ANALYZE_MEMORY_TASK, { memory: this.serializeMemory(memory) }).catch(() => null)
+            : null;
+        memory.predictedRelevance = analysis?.predictedRelevance ?? await this.predictiveAnalytics.predictRelevance(memory);
+        memory.aiGeneratedTags = analysis?.aiGeneratedTags ?? await this.predictiveAnalytics.generateTags(memory);
+        memory.semanticContext = analysis?.semanticContext ?? await this.predictiveAnalytics.analyzeContext(memory);
+        memory.importance = this.calculateImportance(memory);
+        memory.neuralWeights = this.updateNeuralWeights(memory);
+    }
+
+    // Drops cached entries derived from the memory or its type, including the queries that returned it.
+    // Indexing a memory can also add it to queries that never returned it, so those that searched its partition go too.
+    private async invalidateCachedMemory(type: MemoryType, id: number, partition?: string): Promise<void> {
+        await this.cache.invalidateByTag(memoryTag(type, id), typeTag(type));
+        if (partition !== undefined) this.cache.invalidateQueries(type, { memoryId: id, partition });
+    }
+
+    private async invalidateCachedRelation(type: MemoryType, source: number, target: number): Promise<void> {
+        await this.cache.invalidateByTag(memoryTag(type, source), memoryTag(type, target), typeTag(type));
+    }
+
+    // Cluster changes happen inside synchronous bookkeeping; invalidateByTag removes entries before it awaits
+    protected onClustersChanged(type: MemoryType, clusterIds: number[]): void {
+        this.cache.invalidateByTag(...clusterIds.map(id => clusterTag(type, id)), typeTag(type));
+    }
+
     private calculateImportance(memory: EnhancedMemory): number {
         return (
             memory.predictedRelevance * 0.4 +
@@ -243,15 +1598,83 @@ export class EnhancedVectorStore extends VectorStore {
 
     private async mergeMemoryGroup(memories: EnhancedMemory[]): Promise<void> {
         const primaryMemory = memories[0];
-        primaryMemory.content = this.mergeMemoryContent(memories);
-        primaryMemory.aiGeneratedTags = this.mergeMemoryTags(memories);
-        primaryMemory.importance = Math.max(...memories.map(m => m.importance));
-        primaryMemory.strength = Math.max(...memories.map(m => m.strength));
-        primaryMemory.neuralWeights = this.updateNeuralWeights(primaryMemory);
+        const record: MergeRecord = {
+            memoryId: primaryMemory.id,
+            type: primaryMemory.type,
+            mergedAt: this.clock.now(),
+            sources: memories.slice(1).map(m => ({
+                id: m.id,
+                content: m.content,
+                similarity: this.calculateMemorySimilarity(primaryMemory, m)
+            })),
+            original: JSON.parse(JSON.stringify(this.serializeMemory(primaryMemory)))
+        };
+
+        const changes: Partial<EnhancedMemory> = {
+            content: this.mergeMemoryContent(memories),
+            aiGeneratedTags: this.mergeMemoryTags(memories),
+            importance: Math.max(...memories.map(m => m.importance)),
+            strength: Math.max(...memories.map(m => m.strength)),
+            neuralWeights: this.mergeNeuralWeights(memories),
+            vector: this.calculateCentroid(memories.map(m => m.vector))
+        };
+
+        const mergedIds = memories.slice(1).map(m => m.id);
+        const depth = this.mergeHistory.get(primaryMemory.type, primaryMemory.id).length;
+        await this.commitMutation(
+            'merge',
+            { memory: this.serializeMemory({ ...primaryMemory, ...changes }), merged: mergedIds, record, depth },
+            async () => {
+                Object.assign(primaryMemory, changes);
+                await this.applyMerge(primaryMemory, memories.slice(1), record);
+            }
+        );
+        this.events.emit('memoriesMerged', { memory: primaryMemory, mergedIds });
+    }
+
+    private async applyMerge(primaryMemory: EnhancedMemory, sources: EnhancedMemory[], record?: MergeRecord): Promise<void> {
+        for (const source of sources) {
+            await this.moveToArchive(source, 'merged');
+            this.graph.addEdge(primaryMemory.type, primaryMemory.id, source.id, 'merged-from', this.calculateMemorySimilarity(primaryMemory, source));
+        }
+        if (record) this.mergeHistory.add(record);
+
+        // The merged vector moved, so the primary needs a fresh HNSW entry and partition
+        await this.putMemory(primaryMemory);
+    }
+
+    // Merges into `id`, oldest first
+    getMergeHistory(type: MemoryType, id: number): MergeRecord[] {
+        return [...this.mergeHistory.get(type, id)];
+    }
+
+    // Undoes the most recent merge into `id`: the memory returns to its pre-merge state (dropping
+    // any later edits) and sources still archived as merged are restored. Returns the restored memories.
+    async unmerge(type: MemoryType, id: number): Promise<EnhancedMemory[]> {
+        const depth = this.mergeHistory.get(type, id).length;
+        if (depth === 0) throw new VectorStoreError(`Memory ${id} has no merge history in ${type} store`);
+        return this.commitMutation('unmerge', { type, id, depth }, () => this.applyUnmerge(type, id));
+    }
+
+    private async applyUnmerge(type: MemoryType, id: number): Promise<EnhancedMemory[]> {
+        const record = this.mergeHistory.pop(type, id);
+        if (!record) throw new VectorStoreError(`Memory ${id} has no merge history in ${type} store`);
 
-        for (let i = 1; i < memories.length; i++) {
-            await this.archiveMemory(memories[i]);
+        const primaryMemory = this.deserializeMemory(record.original);
+        this.archive.remove(type, id);
+        await this.putMemory(primaryMemory);
+
+        const restored = [primaryMemory];
+        for (const source of record.sources) {
+            this.graph.removeEdge(type, id, source.id, 'merged-from');
+            const entry = this.archive.get(type, source.id);
+            if (entry?.reason !== 'merged') continue;
+
+            await this.putMemory(entry.memory);
+            this.archive.remove(type, source.id);
+            restored.push(entry.memory);
         }
+        return restored;
     }
 
     private findSimilarMemoriesInCluster(memories: EnhancedMemory[]): EnhancedMemory[][] {
@@ -294,20 +1717,6 @@ export class EnhancedVectorStore extends VectorStore {
         );
     }
 
-    private calculateCosineSimilarity(vec1: Float32Array, vec2: Float32Array): number {
-        let dotProduct = 0;
-        let norm1 = 0;
-        let norm2 = 0;
-
-        for (let i = 0; i < vec1.length; i++) {
-            dotProduct += vec1[i] * vec2[i];
-            norm1 += vec1[i] * vec1[i];
-            norm2 += vec2[i] * vec2[i];
-        }
-
-        return dotProduct / (Math.sqrt(norm1) * Math.sqrt(norm2)) || 0;
-    }
-
     private calculateTagSimilarity(tags1: string[], tags2: string[]): number {
         const set1 = new Set(tags1);
         const set2 = new Set(tags2);
@@ -324,41 +1733,491 @@ export class EnhancedVectorStore extends VectorStore {
         return intersection.size / union.size || 0;
     }
 
-    private async archiveMemory(memory: EnhancedMemory): Promise<void> {
-        // Placeholder for archival logic
-        await this.moveToArchive(memory);
+    // Records an explicit relation, e.g. `relateMemories(type, effect, cause, 'caused-by')`
+    async relateMemories(
+        type: MemoryType,
+        source: number,
+        target: number,
+        relation: RelationType,
+        weight: number = 1
+    ): Promise<MemoryEdge> {
+        for (const id of [source, target]) {
+            if (!this.resolveMemory(type, id)) throw new VectorStoreError(`Memory ${id} not found in ${type} store`);
+        }
+        if (source === target) throw new VectorStoreError('Cannot relate a memory to itself');
+        return this.commitMutation('relate', { type, source, target, relation, weight }, async () => {
+            const edge = this.graph.addEdge(type, source, target, relation, weight)!;
+            await this.invalidateCachedRelation(type, source, target);
+            return edge;
+        });
+    }
+
+    // Neighbours may be archived (e.g. the sources of a merge), so they are resolved from both tiers
+    async getNeighbors(
+        type: MemoryType,
+        id: number,
+        options: TraversalOptions = {}
+    ): Promise<Array<{ memory: EnhancedMemory; edge: MemoryEdge }>> {
+        return this.graph.getNeighbors(type, id, options)
+            .map(({ id: neighborId, edge }) => ({ memory: this.resolveMemory(type, neighborId)!, edge }))
+            .filter(neighbor => neighbor.memory !== undefined);
+    }
+
+    async getPath(
+        type: MemoryType,
+        from: number,
+        to: number,
+        options: TraversalOptions & { maxDepth?: number } = {}
+    ): Promise<MemoryEdge[] | null> {
+        return this.graph.getPath(type, from, to, options);
+    }
+
+    async getSubgraph(
+        type: MemoryType,
+        id: number,
+        depth: number = 1,
+        options: TraversalOptions = {}
+    ): Promise<{ memories: EnhancedMemory[]; edges: MemoryEdge[] }> {
+        const { nodes, edges } = this.graph.getSubgraph(type, id, depth, options);
+        return {
+            memories: nodes.map(nodeId => this.resolveMemory(type, nodeId)).filter((m): m is EnhancedMemory => m !== undefined),
+            edges
+        };
+    }
+
+    private resolveMemory(type: MemoryType, id: number): EnhancedMemory | undefined {
+        return this.records.get(type)?.get(id) || this.archive.get(type, id)?.memory;
+    }
+
+    listArchived(type?: MemoryType): ArchivedMemory[] {
+        return this.archive.list(type);
+    }
+
+    async searchArchive(
+        query: Float32Array,
+        type: MemoryType,
+        k: number = 5,
+        threshold: number = VECTOR_STORE_CONFIG.SIMILARITY_THRESHOLD
+    ): Promise<Array<{ memoryId: number; similarity: number }>> {
+        return this.archive.search(query, type, k, threshold);
+    }
+
+    // Restored memories come back just above the archive threshold so the next decay pass doesn't re-archive them
+    async restoreMemory(type: MemoryType, id: number, strength: number = this.decayConfig.minStrength * 2): Promise<EnhancedMemory> {
+        const entry = this.archive.get(type, id);
+        if (!entry) throw new VectorStoreError(`Memory ${id} is not archived in ${type} store`);
+
+        const memory: EnhancedMemory = {
+            ...entry.memory,
+            strength: Math.max(entry.memory.strength, strength),
+            lastAccessed: this.clock.now()
+        };
+
+        await this.commitMutation('restore', { memory: this.serializeMemory(memory) }, async () => {
+            await this.putMemory(memory);
+            this.archive.remove(type, id);
+        });
+        return memory;
+    }
+
+    private async archiveMemory(memory: EnhancedMemory, reason: ArchiveReason): Promise<void> {
+        if (!this.records.get(memory.type)?.has(memory.id)) return;
+        await this.commitMutation('archive', { memory: this.serializeMemory(memory), reason }, () => this.moveToArchive(memory, reason));
+        this.events.emit('memoryArchived', { memory, reason });
+    }
+
+    // Returns false when the memory is not in the active index
+    private async moveToArchive(memory: EnhancedMemory, reason: ArchiveReason): Promise<boolean> {
+        if (!this.removeFromIndex(memory.type, memory.id)) return false;
+        this.partitioner.removeMember(memory.id, memory.type);
+        this.lexicalIndexes.get(memory.type)?.remove(memory.id);
+        this.timelines.get(memory.type)?.remove(memory.id);
+        await this.invalidateCachedMemory(memory.type, memory.id);
+        this.archive.add(memory, reason);
+        return true;
+    }
+
+    // The store itself is the default namespace; every other namespace is a separate store with its own
+    // indexes, partitions, cache, archive, graph, anomaly log and maintenance, persisted next to this one
+    listNamespaces(): string[] {
+        this.assertNamespaceRoot();
+        return [DEFAULT_NAMESPACE, ...[...this.namespaces.keys()].sort()];
+    }
+
+    namespace(name: string): EnhancedVectorStore {
+        this.assertNamespaceRoot();
+        if (name === DEFAULT_NAMESPACE) return this;
+        const store = this.namespaces.get(name);
+        if (!store) throw new VectorStoreError(`Unknown namespace: ${name}`);
+        return store;
+    }
+
+    async createNamespace(name: string): Promise<EnhancedVectorStore> {
+        const store = this.spawnNamespace(name);
+        await this.registerNamespace(store);
+        return store;
+    }
+
+    // Drops the namespace with all of its memories and persisted files
+    async dropNamespace(name: string): Promise<boolean> {
+        this.assertNamespaceRoot();
+        if (name === DEFAULT_NAMESPACE) throw new VectorStoreError('The default namespace cannot be dropped');
+        const store = this.namespaces.get(name);
+        if (!store) return false;
+
+        this.namespaces.delete(name);
+        await store.dispose();
+        await this.logMutation('drop-namespace', { name });
+        if (this.persistencePath) await this.removeNamespaceFiles(this.namespacePath(this.persistencePath, name));
+        return true;
+    }
+
+    // Copies every memory, cluster, archived memory, edge and merge record into a new namespace
+    async copyNamespace(source: string, target: string): Promise<EnhancedVectorStore> {
+        const origin = this.namespace(source);
+        const store = this.spawnNamespace(target);
+
+        const directory = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'namespace-'));
+        try {
+            await origin.saveState(path.join(directory, 'copy'));
+            await store.loadState(path.join(directory, 'copy'));
+        } catch (error) {
+            console.error('Error copying namespace:', error);
+            await store.dispose();
+            throw error;
+        } finally {
+            await fs.promises.rm(directory, { recursive: true, force: true });
+        }
+
+        await this.registerNamespace(store);
+        // The copy was loaded, not logged, so only a checkpoint makes it durable
+        if (this.persistencePath) await store.checkpoint();
+        return store;
+    }
+
+    private spawnNamespace(name: string): EnhancedVectorStore {
+        this.assertNamespaceRoot();
+        if (!NAMESPACE_NAME.test(name)) throw new VectorStoreError(`Invalid namespace name: ${name}`);
+        if (name === DEFAULT_NAMESPACE || this.namespaces.has(name)) throw new VectorStoreError(`Namespace already exists: ${name}`);
+
+        const store = new EnhancedVectorStore(this.dimension, this.maxElements, this.embeddingProvider, this.clock);
+        store.namespaceName = name;
+        store.quantization = this.quantization;
+        return store;
+    }
+
+    private async registerNamespace(store: EnhancedVectorStore): Promise<void> {
+        if (this.persistencePath) {
+            const storePath = this.namespacePath(this.persistencePath, store.namespaceName);
+            // Files left by a drop that crashed before cleaning up must not resurface in the new namespace
+            await this.removeNamespaceFiles(storePath);
+            await store.open(storePath, this.persistenceConfig);
+        }
+        this.namespaces.set(store.namespaceName, store);
+        await this.logMutation('create-namespace', { name: store.namespaceName });
+    }
+
+    private assertNamespaceRoot(): void {
+        if (this.namespaceName !== DEFAULT_NAMESPACE) {
+            throw new VectorStoreError(`Namespace ${this.namespaceName} cannot manage namespaces`);
+        }
+    }
+
+    private namespacePath(filepath: string, name: string): string {
+        return `${filepath}.ns-${name}`;
+    }
+
+    private async readNamespaceList(prefix: string): Promise<string[]> {
+        return (await readVersionedIfPresent(`${prefix}_namespaces`, 'namespaces')) ?? [];
+    }
+
+    private async resetNamespaces(names: string[]): Promise<void> {
+        await Promise.all([...this.namespaces.values()].map(store => store.dispose()));
+        this.namespaces = new Map();
+        for (const name of names) this.namespaces.set(name, this.spawnNamespace(name));
     }
 
-    private async moveToArchive(memory: EnhancedMemory): Promise<void> {
-        // Implementation TBD: Move to separate storage, remove from active index
+    // Bound stores open their namespaces, so each one replays and appends to its own log
+    private async attachNamespaces(filepath: string): Promise<void> {
+        for (const [name, store] of this.namespaces) {
+            const storePath = this.namespacePath(filepath, name);
+            if (this.persistencePath === filepath) await store.open(storePath, this.persistenceConfig);
+            else if (await store.hasPersistedState(storePath)) await store.load(storePath);
+        }
+    }
+
+    private async removeNamespaceFiles(storePath: string): Promise<void> {
+        const directory = path.dirname(storePath);
+        const base = path.basename(storePath);
+        const files = await fs.promises.readdir(directory).catch(() => [] as string[]);
+        for (const file of files) {
+            // Namespace names cannot contain '.', so `${base}.` only matches this namespace's snapshots
+            if (file === `${base}_wal` || file === `${base}_checkpoint` || file.startsWith(`${base}.`)) {
+                await fs.promises.unlink(path.join(directory, file)).catch(() => undefined);
+            }
+        }
+    }
+
+    // Loads whatever is persisted at `filepath` and appends every later mutation to `${filepath}_wal`
+    async open(filepath: string, config: Partial<PersistenceConfig> = {}): Promise<void> {
+        this.persistenceConfig = { ...this.persistenceConfig, ...config };
+        this.persistencePath = filepath;
+        this.wal = new WriteAheadLog(`${filepath}_wal`, { fsync: this.persistenceConfig.fsync }, this.clock);
+        this.checkpointSequence = 0;
+
+        if (await this.hasPersistedState(filepath)) await this.load(filepath);
     }
 
+    private async hasPersistedState(filepath: string): Promise<boolean> {
+        return (await this.readCheckpoint(filepath)) !== null
+            || fs.existsSync(`${filepath}_metadata`)
+            || fs.existsSync(`${filepath}_wal`);
+    }
+
+    async checkpoint(): Promise<void> {
+        if (!this.persistencePath) throw new VectorStoreError('No persistence path: call open() before checkpoint()');
+        await this.save(this.persistencePath);
+    }
+
+    // Writes a complete snapshot under a new generation prefix, then atomically repoints
+    // `${filepath}_checkpoint` at it. A crash at any point leaves the previous checkpoint intact.
     async save(filepath: string): Promise<void> {
-        await super.save(filepath);
-        await this.cache.save(`${filepath}_cache`);
-        await this.partitioner.save(`${filepath}_partitions`);
-        await fs.promises.writeFile(`${filepath}_anomalies`, JSON.stringify(this.anomalyLog));
+        while (this.checkpointing) await this.checkpointing.catch(() => undefined);
+        this.checkpointing = this.writeCheckpoint(filepath);
+        try {
+            await this.checkpointing;
+        } finally {
+            this.checkpointing = null;
+        }
     }
 
     async load(filepath: string): Promise<void> {
-        await super.load(filepath);
-        await this.cache.load(`${filepath}_cache`);
-        await this.partitioner.load(`${filepath}_partitions`);
+        const checkpoint = await this.readCheckpoint(filepath);
+        const wal = this.persistencePath === filepath && this.wal
+            ? this.wal
+            : new WriteAheadLog(`${filepath}_wal`, {}, this.clock);
+        const entries = await wal.read(checkpoint?.sequence ?? 0);
+
+        // Snapshots written before checkpoints existed sit directly at `filepath`; a log with no
+        // snapshot at all (crash before the first checkpoint) is replayed onto the empty store
+        const prefix = checkpoint ? `${filepath}.${checkpoint.generation}` : filepath;
+        const hasSnapshot = checkpoint !== null || entries.length === 0 || fs.existsSync(`${filepath}_metadata`);
+        if (hasSnapshot) await super.load(prefix);
+        await this.resetNamespaces(hasSnapshot ? await this.readNamespaceList(prefix) : []);
+
+        for (const entry of entries) await this.replayEntry(entry);
+        if (this.persistencePath === filepath) this.checkpointSequence = checkpoint?.sequence ?? 0;
+        await this.attachNamespaces(filepath);
+    }
+
+    private async writeCheckpoint(filepath: string): Promise<void> {
+        const bound = this.persistencePath === filepath && this.wal !== null;
+        const wal = bound ? this.wal! : new WriteAheadLog(`${filepath}_wal`, {}, this.clock);
+        // An unbound log at this path predates the snapshot, so the snapshot supersedes all of it
+        if (!bound) await wal.read();
+
+        // Namespaces are saved first, so every namespace this checkpoint lists has its files in place
+        for (const [name, store] of this.namespaces) await store.save(this.namespacePath(filepath, name));
+
+        const previous = await this.readCheckpoint(filepath).catch(() => null);
+        const sequence = wal.sequence;
+        // Mutations logged up to `sequence` may still be applying; the snapshot has to contain them
+        if (bound) await Promise.all([...this.applying].map(pending => pending.catch(() => undefined)));
+        // A simulated clock may not have moved since the last checkpoint, so the time alone is not unique
+        const generation = `ckpt-${sequence}-${this.clock.now().toString(36)}-${Math.random().toString(36).substr(2, 9)}`;
+
+        try {
+            await super.save(`${filepath}.${generation}`);
+        } catch (error) {
+            await this.removeSnapshot(`${filepath}.${generation}`);
+            throw error;
+        }
+        const pointer: CheckpointPointer = { generation, sequence, createdAt: this.clock.now() };
+        await writeFileAtomic(`${filepath}_checkpoint`, JSON.stringify(pointer));
+
+        await wal.truncate(sequence);
+        if (previous && previous.generation !== generation) await this.removeSnapshot(`${filepath}.${previous.generation}`);
+        if (bound) this.checkpointSequence = sequence;
+    }
+
+    private async readCheckpoint(filepath: string): Promise<CheckpointPointer | null> {
+        try {
+            return JSON.parse(await fs.promises.readFile(`${filepath}_checkpoint`, 'utf-8'));
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+            throw new VectorStoreError(`Error loading vector store: ${(error as Error).message}`);
+        }
+    }
+
+    protected snapshotFiles(): string[] {
+        return [...super.snapshotFiles(), '_cache', '_partitions', '_archive', '_graph', '_merges', '_anomalies', '_namespaces'];
+    }
+
+    protected async saveState(prefix: string): Promise<void> {
+        await super.saveState(prefix);
+        await this.cache.save(`${prefix}_cache`);
+        await this.partitioner.save(`${prefix}_partitions`);
+        await this.archive.save(`${prefix}_archive`);
+        await this.graph.save(`${prefix}_graph`);
+        await this.mergeHistory.save(`${prefix}_merges`);
+        await writeVersioned(`${prefix}_anomalies`, 'anomaly-log', this.anomalyLog);
+        await writeVersioned(`${prefix}_namespaces`, 'namespaces', [...this.namespaces.keys()]);
+    }
+
+    protected async loadState(prefix: string): Promise<void> {
+        await super.loadState(prefix);
+        await this.cache.load(`${prefix}_cache`);
+        await this.partitioner.load(`${prefix}_partitions`);
+        await this.archive.load(`${prefix}_archive`);
+        await this.graph.load(`${prefix}_graph`);
+        await this.mergeHistory.load(`${prefix}_merges`);
+        this.anomalyLog = (await readVersionedIfPresent(`${prefix}_anomalies`, 'anomaly-log')) ?? [];
+
+        // The lexical and timeline indexes are derived data, rebuilt from the loaded records rather than persisted
+        this.lexicalIndexes = new Map();
+        this.timelines = new Map();
+        for (const memory of await this.getAllMemories()) {
+            this.indexLexical(memory);
+            this.indexTimeline(memory);
+        }
+    }
+
+    private async removeSnapshot(prefix: string): Promise<void> {
+        const directory = path.dirname(prefix);
+        const stem = `${path.basename(prefix)}_`;
+        for (const file of await fs.promises.readdir(directory)) {
+            if (file.startsWith(stem)) await fs.promises.unlink(path.join(directory, file)).catch(() => undefined);
+        }
+    }
+
+    // Appends a mutation to the log, then applies it, so a failed append leaves the store untouched.
+    // The apply is tracked from before the append so writeCheckpoint() can wait for every logged one.
+    private async commitMutation<T>(op: WalOperation, data: any, apply: () => Promise<T>): Promise<T> {
+        const pending = (async () => {
+            if (this.wal) await this.wal.append(op, data);
+            return apply();
+        })();
+        this.applying.add(pending);
+        let result: T;
         try {
-            this.anomalyLog = JSON.parse(await fs.promises.readFile(`${filepath}_anomalies`, 'utf-8'));
-        } catch {
-            this.anomalyLog = [];
+            result = await pending;
+        } finally {
+            this.applying.delete(pending);
+        }
+
+        if (this.wal && !this.checkpointing && this.wal.sequence - this.checkpointSequence >= this.persistenceConfig.checkpointInterval) {
+            await this.checkpoint();
+        }
+        return result;
+    }
+
+    // For namespace changes, which are applied before they are logged
+    private async logMutation(op: WalOperation, data: any): Promise<void> {
+        await this.commitMutation(op, data, async () => undefined);
+    }
+
+    // Re-applies a logged mutation without re-running embedding, analytics or logging
+    private async replayEntry(entry: WalEntry): Promise<void> {
+        switch (entry.op) {
+            case 'add':
+            case 'update':
+                await this.putMemory(this.deserializeMemory(entry.data.memory));
+                break;
+            case 'add-batch':
+                for (const memory of entry.data.memories) await this.putMemory(this.deserializeMemory(memory));
+                break;
+            case 'restore': {
+                const memory = this.deserializeMemory(entry.data.memory);
+                await this.putMemory(memory);
+                this.archive.remove(memory.type, memory.id);
+                break;
+            }
+            case 'archive':
+                await this.moveToArchive(this.deserializeMemory(entry.data.memory), entry.data.reason);
+                break;
+            case 'merge': {
+                const primaryMemory = this.deserializeMemory(entry.data.memory);
+                const table = this.getRecordTable(primaryMemory.type);
+                const sources = (entry.data.merged as number[])
+                    .map(id => table.get(id))
+                    .filter((m): m is EnhancedMemory => m !== undefined);
+                // `depth` is the history length the merge was logged at. A checkpoint written while it was
+                // applying may already hold its record, and recording it twice would corrupt the history.
+                const depth = this.mergeHistory.get(primaryMemory.type, primaryMemory.id).length;
+                const recorded = entry.data.depth !== undefined && depth > entry.data.depth;
+                await this.applyMerge(primaryMemory, sources, recorded ? undefined : entry.data.record);
+                break;
+            }
+            case 'unmerge': {
+                // Likewise, an unmerge already in the checkpoint has popped its record and must not pop an earlier one
+                const depth = this.mergeHistory.get(entry.data.type, entry.data.id).length;
+                if (entry.data.depth === undefined ? depth > 0 : depth === entry.data.depth) {
+                    await this.applyUnmerge(entry.data.type, entry.data.id);
+                }
+                break;
+            }
+            case 'delete':
+                await this.removeMemory(entry.data.type, entry.data.id);
+                break;
+            case 'relate':
+                this.graph.addEdge(entry.data.type, entry.data.source, entry.data.target, entry.data.relation, entry.data.weight);
+                await this.invalidateCachedRelation(entry.data.type, entry.data.source, entry.data.target);
+                break;
+            // Namespace contents come from their own logs once the namespace list is settled
+            case 'create-namespace':
+                this.namespaces.set(entry.data.name, this.spawnNamespace(entry.data.name));
+                break;
+            case 'drop-namespace':
+                await this.namespaces.get(entry.data.name)?.dispose();
+                this.namespaces.delete(entry.data.name);
+                break;
+        }
+    }
+
+    // Records which retrieved memories were actually used. Each result is a logistic-regression
+    // sample (used = 1, ignored = 0) on the query's layer projection, so future boosts follow usage.
+    async recordRetrievalFeedback(
+        type: MemoryType,
+        query: string | Float32Array,
+        resultIds: number[],
+        usedIds: number[]
+    ): Promise<void> {
+        const features = this.projectToNeuralLayer(await this.embedQuery(query));
+        const used = new Set(usedIds);
+        const learningRate = this.aiConfig.neuralLearningRate!;
+
+        for (const id of resultIds) {
+            const memory = await this.getMemory(type, id);
+            const weights = Float32Array.from(this.updateNeuralWeights(memory));
+            const error = (used.has(id) ? 1 : 0) - this.neuralActivation(weights, features);
+
+            for (let i = 0; i < weights.length; i++) {
+                weights[i] += learningRate * error * features[i];
+            }
+            const changes: Partial<EnhancedMemory> = { neuralWeights: weights };
+            if (used.has(id)) {
+                changes.accessCount = memory.accessCount + 1;
+                changes.lastAccessed = this.clock.now();
+            }
+
+            await this.commitMutation('update', { memory: this.serializeMemory({ ...memory, ...changes }) }, async () => {
+                Object.assign(memory, changes);
+                await this.invalidateCachedMemory(type, id);
+            });
         }
     }
 
-    // New: Neural-inspired weight update
+    // Weights are learned state: initialise once (seeded by store seed and memory id), then only feedback changes them
     private updateNeuralWeights(memory: EnhancedMemory): Float32Array {
+        if (memory.neuralWeights && memory.neuralWeights.length === this.aiConfig.neuralLayerSize) return memory.neuralWeights;
+
+        const random = this.seededRandom(this.aiConfig.neuralSeed! ^ memory.id);
+        const prior = Math.tanh(memory.predictedRelevance + memory.importance);
+        const projection = this.projectToNeuralLayer(memory.vector);
         const weights = new Float32Array(this.aiConfig.neuralLayerSize!);
-        const relevance = memory.predictedRelevance;
-        const importance = memory.importance;
 
         for (let i = 0; i < weights.length; i++) {
-            weights[i] = Math.tanh(relevance * (i % 2 === 0 ? 1 : -1) + importance * Math.random());
+            weights[i] = prior * projection[i] + 0.01 * (random() - 0.5);
         }
         return weights;
     }
@@ -369,17 +2228,54 @@ export class EnhancedVectorStore extends VectorStore {
         query: string | Float32Array,
         type: MemoryType
     ): Promise<Array<{ memoryId: number; similarity: number }>> {
+        const features = this.projectToNeuralLayer(await this.embedQuery(query));
         const memories = await Promise.all(results.map(r => this.getMemory(type, r.memoryId)));
         return results.map((r, i) => {
             const memory = memories[i];
             if (!memory.neuralWeights) return r;
 
-            const weightFactor = memory.neuralWeights.reduce((sum, w) => sum + Math.abs(w), 0) / this.aiConfig.neuralLayerSize!;
+            const activation = this.neuralActivation(memory.neuralWeights, features);
             return {
                 memoryId: r.memoryId,
-                similarity: r.similarity * (0.8 + 0.2 * weightFactor) // Boost by neural factor
+                similarity: r.similarity * (0.8 + 0.2 * activation) // Boost by neural factor
             };
-        }).sort((a, b) => b.similarity - a.similarity);
+        }).sort((a, b) => b.similarity - a.similarity || a.memoryId - b.memoryId);
+    }
+
+    private neuralActivation(weights: Float32Array, features: Float32Array): number {
+        let z = 0;
+        for (let i = 0; i < weights.length; i++) z += weights[i] * features[i];
+        return 1 / (1 + Math.exp(-z));
+    }
+
+    // Folds a vector onto the neural layer (component i lands in bucket i % layerSize), L2-normalised
+    private projectToNeuralLayer(vector: Float32Array): Float32Array {
+        const projection = new Float32Array(this.aiConfig.neuralLayerSize!);
+        for (let i = 0; i < vector.length; i++) projection[i % projection.length] += vector[i];
+
+        const norm = Math.sqrt(projection.reduce((sum, v) => sum + v * v, 0));
+        return norm > 0 ? projection.map(v => v / norm) : projection;
+    }
+
+    private mergeNeuralWeights(memories: EnhancedMemory[]): Float32Array {
+        const weights = memories.map(m => this.updateNeuralWeights(m));
+        const merged = new Float32Array(this.aiConfig.neuralLayerSize!);
+        for (const w of weights) {
+            for (let i = 0; i < merged.length; i++) merged[i] += w[i] / weights.length;
+        }
+        return merged;
+    }
+
+    // mulberry32
+    private seededRandom(seed: number): () => number {
+        let state = seed >>> 0;
+        return () => {
+            state = (state + 0x6d2b79f5) >>> 0;
+            let t = state;
+            t = Math.imul(t ^ (t >>> 15), t | 1);
+            t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+            return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+        };
     }
 
     // New: Calculate neural boost for similarity
@@ -400,36 +2296,6 @@ export class EnhancedVectorStore extends VectorStore {
         );
     }
 
-    // New: Get partition density metrics for adaptive partitioning
-    private getPartitionDensityMetrics(type: MemoryType): { density: number; accessRate: number } {
-        const memories = this.partitioner.getPartitionStats(type);
-        const totalMemories = memories.reduce((sum, p) => sum + p.size, 0);
-        const avgDensity = memories.length > 0 ? totalMemories / memories.length : 0;
-        const accessRate = memories.reduce((sum, p) => sum + (p.accessCount || 0), 0) / totalMemories || 0;
-        return { density: avgDensity, accessRate };
-    }
-
-    // Placeholder methods from VectorStore superclass (assumed)
-    protected async getAllMemories(type?: MemoryType): Promise<EnhancedMemory[]> {
-        // Implementation TBD: Fetch all memories from HNSW store
-        return [];
-    }
-
-    protected async getMemory(type: MemoryType, id: number): Promise<EnhancedMemory> {
-        // Implementation TBD: Fetch specific memory
-        return {} as EnhancedMemory;
-    }
-
-    protected async getAllClusters(): Promise<any[]> {
-        // Implementation TBD: Fetch all clusters
-        return [];
-    }
-
-    protected async getClusterMemories(type: MemoryType, clusterId: number): Promise<EnhancedMemory[]> {
-        // Implementation TBD: Fetch memories in a cluster
-        return [];
-    }
-
     private mergeSearchResults(results: Array<Array<{ memoryId: number; similarity: number }>>, k: number): Array<{ memoryId: number; similarity: number }> {
         const merged = new Map<number, number>();
         results.flat().forEach(r => {
@@ -449,39 +2315,34 @@ export class EnhancedVectorStore extends VectorStore {
         return Array.from(new Set(memories.flatMap(m => m.aiGeneratedTags)));
     }
 
+    // Rebuilds the automatic edges of a memory: similar-to its nearest neighbours and follows the
+    // memory stored just before it. Explicit relations (caused-by, contradicts, merged-from) are kept.
     private async updateRelatedMemories(memory: EnhancedMemory, vectorId: number): Promise<void> {
-        // Implementation TBD: Update related memories if needed
-    }
-
-    private async optimizeLocalIndex(partition: string): Promise<void> {
-        // Implementation TBD: Optimize partition-specific index
+        this.graph.removeEdges(memory.type, vectorId, 'similar-to', 'out');
+        this.graph.removeEdges(memory.type, vectorId, 'follows', 'out');
+
+        const neighbors = await this.searchIndex(
+            memory.vector,
+            memory.type,
+            this.aiConfig.relatedMemoryCount! + 1,
+            VECTOR_STORE_CONFIG.SIMILARITY_THRESHOLD
+        );
+        neighbors
+            .filter(n => n.memoryId !== vectorId)
+            .slice(0, this.aiConfig.relatedMemoryCount)
+            .forEach(n => this.graph.addEdge(memory.type, vectorId, n.memoryId, 'similar-to', n.similarity));
+
+        const predecessor = this.timelines.get(memory.type)?.latestBefore(
+            memory.timestamp,
+            memory.timestamp - this.aiConfig.sequenceWindow!,
+            vectorId
+        ) ?? null;
+        if (predecessor !== null) this.graph.addEdge(memory.type, vectorId, predecessor, 'follows');
     }
 }
 
 export default EnhancedVectorStore;
 
-// Base VectorStore class (assumed for compilation)
-abstract class VectorStore {
-    protected stores: Map<string, HierarchicalNSW>;
-    constructor(
-        protected dimension: number,
-        protected maxElements: number,
-        protected embeddingEndpoint: string,
-        protected apiKey: string
-    ) {
-        this.stores = new Map();
-    }
-
-    async addMemory(memory: EnhancedMemory): Promise<number> { return 0; }
-    async findSimilar(query: string | Float32Array, type: MemoryType, k: number, threshold: number, partition?: string): Promise<Array<{ memoryId: number; similarity: number }>> { return []; }
-    async save(filepath: string): Promise<void> {}
-    async load(filepath: string): Promise<void> {}
-    protected abstract getAllMemories(type?: MemoryType): Promise<EnhancedMemory[]>;
-    protected abstract getMemory(type: MemoryType, id: number): Promise<EnhancedMemory>;
-    protected abstract getAllClusters(): Promise<any[]>;
-    protected abstract getClusterMemories(type: MemoryType, clusterId: number): Promise<EnhancedMemory[]>;
-}
-
 export type MemoryType = 'episodic' | 'semantic' | 'procedural' | 'emotional';
 interface Memory {
     id: number;
@@ -490,4 +2351,5 @@ interface Memory {
     vector: Float32Array;
     strength: number;
     timestamp: number;
+    emotions?: string[];
 }
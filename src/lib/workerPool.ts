@@ -1,5 +1,7 @@
 // src/lib/optimizations/workerPool.ts
 
+import { Clock, systemClock } from './clock';
+
 interface WorkerTask {
     id: string;
     type: string;
@@ -53,17 +55,21 @@ interface TelemetryData {
 export class WorkerPool {
     private workers: Map<string, WorkerInstance>;
     private taskQueue: WorkerTask[];
+    private runningTasks: Map<string, WorkerTask>; // Dispatched tasks awaiting a worker response
     private config: WorkerPoolConfig;
     private workerScript: string;
-    private taskTimeouts: Map<string, NodeJS.Timeout>;
+    private taskTimeouts: Map<string, () => void>; // Cancels the timeout of a pending task
     private processedTasks: number;
     private errorLog: { timestamp: number; workerId: string; error: string }[];
     private telemetryLog: { timestamp: number; data: TelemetryData }[]; // New: Historical telemetry
     private stateTransitions: { timestamp: number; workerId: string; from: string; to: string }[]; // New: State tracking
+    private clock: Clock;
+    private cancelTimers: Array<() => void>;
 
-    constructor(workerScript: string, config: Partial<WorkerPoolConfig> = {}) {
+    constructor(workerScript: string, config: Partial<WorkerPoolConfig> = {}, clock: Clock = systemClock) {
         this.workers = new Map();
         this.taskQueue = [];
+        this.runningTasks = new Map();
         this.config = {
             minWorkers: 2,
             maxWorkers: navigator.hardwareConcurrency || 4,
@@ -82,6 +88,8 @@ export class WorkerPool {
         this.errorLog = [];
         this.telemetryLog = [];
         this.stateTransitions = [];
+        this.clock = clock;
+        this.cancelTimers = [];
 
         this.initializeWorkers();
         this.startAdaptiveScaling();
@@ -96,16 +104,16 @@ export class WorkerPool {
 
     private async createWorker(): Promise<WorkerInstance> {
         const worker = new Worker(this.workerScript);
-        const workerId = `worker_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+        const workerId = `worker_${this.clock.now()}_${Math.random().toString(36).substr(2, 9)}`;
 
         const instance: WorkerInstance = {
             worker,
             busy: false,
             taskId: null,
-            uptime: Date.now(),
+            uptime: this.clock.now(),
             efficiency: 0,
             errorCount: 0,
-            lastActive: Date.now(),
+            lastActive: this.clock.now(),
             cpuUsage: 0,
             memoryUsage: 0,
             healthScore: 1.0
@@ -118,28 +126,27 @@ export class WorkerPool {
         worker.postMessage({ type: 'init', data: { workerId } });
 
         this.workers.set(workerId, instance);
-        this.stateTransitions.push({ timestamp: Date.now(), workerId, from: 'none', to: 'idle' });
+        this.stateTransitions.push({ timestamp: this.clock.now(), workerId, from: 'none', to: 'idle' });
         return instance;
     }
 
     async executeTask<T>(type: string, data: any, priority: number = 0): Promise<T> {
         return new Promise((resolve, reject) => {
             const task: WorkerTask = {
-                id: `task_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+                id: `task_${this.clock.now()}_${Math.random().toString(36).substr(2, 9)}`,
                 type,
                 data,
                 resolve,
                 reject,
                 priority: Math.max(0, Math.min(10, priority)),
-                createdAt: Date.now(),
+                createdAt: this.clock.now(),
                 predictedCompletion: this.predictTaskCompletion(type, priority)
             };
 
             this.addTaskToQueue(task);
             this.processNextTask();
 
-            const timeout = setTimeout(() => this.handleTaskTimeout(task.id), this.config.taskTimeout);
-            this.taskTimeouts.set(task.id, timeout);
+            this.taskTimeouts.set(task.id, this.clock.setTimeout(() => this.handleTaskTimeout(task.id), this.config.taskTimeout));
         });
     }
 
@@ -170,15 +177,16 @@ export class WorkerPool {
 
         const task = this.taskQueue.shift();
         if (!task) return;
+        this.runningTasks.set(task.id, task);
 
         const worker = this.workers.get(availableWorkerId)!;
         worker.busy = true;
         worker.taskId = task.id;
-        worker.lastActive = Date.now();
+        worker.lastActive = this.clock.now();
         worker.cpuUsage += this.estimateTaskCpuUsage(task); // New: Estimate resource usage
         worker.memoryUsage += this.estimateTaskMemoryUsage(task);
 
-        this.stateTransitions.push({ timestamp: Date.now(), workerId: availableWorkerId, from: 'idle', to: 'busy' });
+        this.stateTransitions.push({ timestamp: this.clock.now(), workerId: availableWorkerId, from: 'idle', to: 'busy' });
 
         worker.worker.postMessage({
             taskId: task.id,
@@ -221,24 +229,25 @@ export class WorkerPool {
         const worker = this.workers.get(workerId);
         if (!worker) return;
 
-        const timeout = this.taskTimeouts.get(taskId);
-        if (timeout) {
-            clearTimeout(timeout);
+        const cancelTimeout = this.taskTimeouts.get(taskId);
+        if (cancelTimeout) {
+            cancelTimeout();
             this.taskTimeouts.delete(taskId);
         }
 
-        const task = this.taskQueue.find(t => t.id === taskId) || 
+        const task = this.runningTasks.get(taskId) || 
             { resolve: () => {}, reject: () => {}, createdAt: worker.lastActive, priority: 0 } as WorkerTask;
+        this.runningTasks.delete(taskId);
 
         if (error) {
             task.reject(error);
             worker.errorCount++;
             worker.healthScore *= 0.9; // Reduce health on error
-            this.errorLog.push({ timestamp: Date.now(), workerId, error: error.message });
+            this.errorLog.push({ timestamp: this.clock.now(), workerId, error: error.message });
         } else {
             task.resolve(result);
             this.processedTasks++;
-            const latency = Date.now() - task.createdAt;
+            const latency = this.clock.now() - task.createdAt;
             worker.efficiency = (worker.efficiency * 0.9) + (0.1 * (1000 / latency));
             worker.cpuUsage = cpuUsage || worker.cpuUsage * 0.95; // Decay if not updated
             worker.memoryUsage = memoryUsage || worker.memoryUsage * 0.95;
@@ -247,7 +256,7 @@ export class WorkerPool {
 
         worker.busy = false;
         worker.taskId = null;
-        this.stateTransitions.push({ timestamp: Date.now(), workerId, from: 'busy', to: 'idle' });
+        this.stateTransitions.push({ timestamp: this.clock.now(), workerId, from: 'busy', to: 'idle' });
 
         this.processNextTask();
         this.checkWorkerHealth(workerId);
@@ -258,16 +267,16 @@ export class WorkerPool {
         if (!worker) return;
 
         if (worker.taskId) {
-            const task = this.taskQueue.find(t => t.id === worker.taskId);
+            const task = this.runningTasks.get(worker.taskId);
             if (task) {
-                this.taskQueue = this.taskQueue.filter(t => t.id !== worker.taskId);
+                this.runningTasks.delete(worker.taskId);
                 task.reject(error);
             }
         }
 
         worker.errorCount++;
         worker.healthScore *= 0.8;
-        this.errorLog.push({ timestamp: Date.now(), workerId, error: error.message });
+        this.errorLog.push({ timestamp: this.clock.now(), workerId, error: error.message });
         this.terminateWorker(workerId);
         this.createWorker();
         this.processNextTask();
@@ -279,9 +288,9 @@ export class WorkerPool {
                 this.terminateWorker(workerId);
                 this.createWorker();
 
-                const task = this.taskQueue.find(t => t.id === taskId);
+                const task = this.runningTasks.get(taskId);
                 if (task) {
-                    this.taskQueue = this.taskQueue.filter(t => t.id !== taskId);
+                    this.runningTasks.delete(taskId);
                     task.reject(new Error('Task timeout'));
                 }
             }
@@ -296,13 +305,13 @@ export class WorkerPool {
 
         worker.worker.terminate();
         this.workers.delete(workerId);
-        this.stateTransitions.push({ timestamp: Date.now(), workerId, from: worker.busy ? 'busy' : 'idle', to: 'terminated' });
+        this.stateTransitions.push({ timestamp: this.clock.now(), workerId, from: worker.busy ? 'busy' : 'idle', to: 'terminated' });
     }
 
     private cleanupIdleWorkers(): void {
         if (this.workers.size <= this.config.minWorkers) return;
 
-        const now = Date.now();
+        const now = this.clock.now();
         for (const [workerId, worker] of this.workers.entries()) {
             if (!worker.busy && now - worker.lastActive > this.config.idleTimeout && this.workers.size > this.config.minWorkers) {
                 this.terminateWorker(workerId);
@@ -311,7 +320,7 @@ export class WorkerPool {
     }
 
     private startAdaptiveScaling(): void {
-        setInterval(() => {
+        this.cancelTimers.push(this.clock.setInterval(() => {
             const telemetry = this.getPerformanceTelemetry();
             const loadFactor = telemetry.queuedTasks / (telemetry.activeWorkers || 1);
             const resourceLoad = (telemetry.resourceUsage.cpu + telemetry.resourceUsage.memory) / 2;
@@ -325,7 +334,7 @@ export class WorkerPool {
             );
 
             this.resizePool(this.config.minWorkers, targetWorkers);
-        }, 10000);
+        }, 10000));
     }
 
     private checkWorkerHealth(workerId: string): void {
@@ -352,7 +361,7 @@ export class WorkerPool {
             ? recentTasks.reduce((sum, t) => sum + t.time, 0) / recentTasks.length 
             : this.config.taskTimeout / 2;
 
-        return Date.now() + this.exponentialSmoothing([avgLatency])[0] * (1 - priority * 0.05); // Higher priority = faster
+        return this.clock.now() + this.exponentialSmoothing([avgLatency])[0] * (1 - priority * 0.05); // Higher priority = faster
     }
 
     // New: Exponential smoothing for prediction
@@ -378,11 +387,11 @@ export class WorkerPool {
 
     // New: Start telemetry collection
     private startTelemetryCollection(): void {
-        setInterval(() => {
+        this.cancelTimers.push(this.clock.setInterval(() => {
             const telemetry = this.getPerformanceTelemetry();
-            this.telemetryLog.push({ timestamp: Date.now(), data: telemetry });
+            this.telemetryLog.push({ timestamp: this.clock.now(), data: telemetry });
             if (this.telemetryLog.length > 100) this.telemetryLog.shift(); // Keep last 100 entries
-        }, 5000); // Collect every 5 seconds
+        }, 5000)); // Collect every 5 seconds
     }
 
     getStats(): {
@@ -400,14 +409,13 @@ export class WorkerPool {
     }
 
     getPerformanceTelemetry(): TelemetryData {
-        const latencies = this.taskQueue.map(t => Date.now() - t.createdAt).concat(
-            Array.from(this.workers.values()).flatMap(w => w.taskId ? [Date.now() - (this.taskQueue.find(t => t.id === w.taskId)?.createdAt || 0)] : [])
-        );
+        const now = this.clock.now();
+        const latencies = [...this.taskQueue, ...this.runningTasks.values()].map(t => now - t.createdAt);
         const avgLatency = latencies.length > 0 ? latencies.reduce((sum, l) => sum + l, 0) / latencies.length : 0;
         const workerEfficiency = Array.from(this.workers.entries()).map(([id, w]) => ({ id, efficiency: w.efficiency }));
         const errorRate = this.errorLog.length / (this.processedTasks || 1);
         const loadDistribution = Array.from(this.workers.values()).map(w => w.efficiency);
-        const predictedCompletionTimes = this.taskQueue.map(t => ({ taskId: t.id, time: t.predictedCompletion! - Date.now() }));
+        const predictedCompletionTimes = this.taskQueue.map(t => ({ taskId: t.id, time: t.predictedCompletion! - this.clock.now() }));
         const resourceUsage = {
             cpu: Array.from(this.workers.values()).reduce((sum, w) => sum + w.cpuUsage, 0) / (this.workers.size || 1),
             memory: Array.from(this.workers.values()).reduce((sum, w) => sum + w.memoryUsage, 0) / (this.workers.size || 1)
@@ -448,15 +456,19 @@ export class WorkerPool {
     }
 
     async terminate(): Promise<void> {
-        for (const timeout of this.taskTimeouts.values()) {
-            clearTimeout(timeout);
+        this.cancelTimers.forEach(cancel => cancel());
+        this.cancelTimers = [];
+
+        for (const cancelTimeout of this.taskTimeouts.values()) {
+            cancelTimeout();
         }
         this.taskTimeouts.clear();
 
-        for (const task of this.taskQueue) {
+        for (const task of [...this.taskQueue, ...this.runningTasks.values()]) {
             task.reject(new Error('Worker pool terminated'));
         }
         this.taskQueue = [];
+        this.runningTasks.clear();
 
         for (const [workerId] of this.workers.entries()) {
             this.terminateWorker(workerId);
@@ -0,0 +1,117 @@
+// src/lib/writeAheadLog.ts
+import * as fs from 'fs';
+import { Clock, systemClock } from './clock';
+
+export type WalOperation =
+    | 'add' | 'add-batch' | 'update' | 'delete' | 'archive' | 'restore' | 'merge' | 'unmerge' | 'relate'
+    | 'create-namespace' | 'drop-namespace';
+
+export interface WalEntry {
+    seq: number;
+    timestamp: number;
+    op: WalOperation;
+    data: any;
+}
+
+interface WalConfig {
+    fsync: boolean;     // Flush every append to disk before it resolves
+}
+
+// Append-only, newline-delimited JSON log of store mutations. File operations are queued so
+// appends land in sequence order and never interleave with truncation.
+export class WriteAheadLog {
+    private filepath: string;
+    private config: WalConfig;
+    private lastSequence: number;
+    private queue: Promise<unknown>;
+    private clock: Clock;
+
+    constructor(filepath: string, config: Partial<WalConfig> = {}, clock: Clock = systemClock) {
+        this.filepath = filepath;
+        this.config = {
+            fsync: true,
+            ...config
+        };
+        this.lastSequence = 0;
+        this.queue = Promise.resolve();
+        this.clock = clock;
+    }
+
+    get sequence(): number {
+        return this.lastSequence;
+    }
+
+    async append(op: WalOperation, data: any): Promise<WalEntry> {
+        const entry: WalEntry = { seq: ++this.lastSequence, timestamp: this.clock.now(), op, data };
+        await this.enqueue(async () => {
+            const handle = await fs.promises.open(this.filepath, 'a');
+            try {
+                await handle.write(JSON.stringify(entry) + '\n');
+                if (this.config.fsync) await handle.sync();
+            } finally {
+                await handle.close();
+            }
+        });
+        return entry;
+    }
+
+    // Returns entries after `afterSequence` and continues numbering from the last entry on disk.
+    // A torn final line (crash mid-append) is ignored, as is everything after it.
+    async read(afterSequence: number = 0): Promise<WalEntry[]> {
+        const entries = await this.enqueue(() => this.readEntries());
+        this.lastSequence = entries.reduce((max, e) => Math.max(max, e.seq), afterSequence);
+        return entries.filter(e => e.seq > afterSequence);
+    }
+
+    // Drops entries covered by a checkpoint
+    async truncate(throughSequence: number): Promise<void> {
+        await this.enqueue(async () => {
+            const remaining = (await this.readEntries()).filter(e => e.seq > throughSequence);
+            await writeFileAtomic(this.filepath, remaining.map(e => JSON.stringify(e) + '\n').join(''));
+        });
+    }
+
+    private async readEntries(): Promise<WalEntry[]> {
+        let content: string;
+        try {
+            content = await fs.promises.readFile(this.filepath, 'utf-8');
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+            console.error('Error reading write-ahead log:', error);
+            throw error;
+        }
+
+        const entries: WalEntry[] = [];
+        for (const line of content.split('\n')) {
+            if (!line) continue;
+            try {
+                entries.push(JSON.parse(line));
+            } catch {
+                break;
+            }
+        }
+        return entries;
+    }
+
+    private enqueue<T>(operation: () => Promise<T>): Promise<T> {
+        const result = this.queue.then(operation);
+        this.queue = result.catch(() => undefined);
+        return result;
+    }
+}
+
+// Writes to a temp file, flushes it and renames it over `filepath`, so readers see either the
+// old or the new content, never a partial write
+export async function writeFileAtomic(filepath: string, data: string): Promise<void> {
+    const tempPath = `${filepath}.tmp`;
+    const handle = await fs.promises.open(tempPath, 'w');
+    try {
+        await handle.writeFile(data);
+        await handle.sync();
+    } finally {
+        await handle.close();
+    }
+    await fs.promises.rename(tempPath, filepath);
+}
+
+export default WriteAheadLog;
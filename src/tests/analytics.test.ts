@@ -85,6 +85,17 @@ describe('Analytics Suite', () => {
             expect(telemetry.relevanceScores).toBeDefined();
             expect(telemetry.forecastScores.length).toBeGreaterThan(0);
         });
+
+        it('should forecast one point per interval across the horizon', async () => {
+            const memory = { id: 7, content: 'test', timestamp: Date.now(), vector: new Float32Array(3) };
+            const daily = new PredictiveAnalytics(); // 7 day horizon, daily points
+            await daily.predictRelevance(memory);
+            expect(daily['lastAnalysis'].get(7)?.forecast).toHaveLength(7);
+
+            const hourly = new PredictiveAnalytics({ forecastInterval: 60 * 60 * 1000 });
+            await hourly.predictRelevance(memory);
+            expect(hourly['lastAnalysis'].get(7)?.forecast).toHaveLength(90); // Capped
+        });
     });
 
     describe('MetricCalculator', () => {
@@ -0,0 +1,77 @@
+// src/tests/clock.test.ts
+
+import { describe, it, expect, afterEach, jest } from '@jest/globals';
+import { ManualClock, SystemClock } from '../lib/clock';
+
+describe('ManualClock', () => {
+  it('should only move when advanced or set', () => {
+    const clock = new ManualClock(1000);
+    expect(clock.now()).toBe(1000);
+
+    clock.advance(500);
+    expect(clock.now()).toBe(1500);
+    clock.set(4000);
+    expect(clock.now()).toBe(4000);
+    expect(() => clock.set(0)).toThrow('cannot move backwards');
+  });
+
+  it('should fire due intervals in time order at their scheduled time', () => {
+    const clock = new ManualClock();
+    const fired: Array<[string, number]> = [];
+    clock.setInterval(() => fired.push(['fast', clock.now()]), 100);
+    clock.setInterval(() => fired.push(['slow', clock.now()]), 250);
+
+    expect(clock.advance(500)).toBe(7);
+    expect(fired).toEqual([
+      ['fast', 100], ['fast', 200], ['slow', 250], ['fast', 300], ['fast', 400], ['fast', 500], ['slow', 500],
+    ]);
+    expect(clock.now()).toBe(500);
+  });
+
+  it('should stop firing cancelled intervals', () => {
+    const clock = new ManualClock();
+    const callback = jest.fn();
+    const cancel = clock.setInterval(callback, 1000);
+
+    clock.advance(2500);
+    cancel();
+    clock.advance(10000);
+    expect(callback).toHaveBeenCalledTimes(2);
+    expect(clock.pendingTimers).toBe(0);
+  });
+
+  it('should fire timeouts once unless cancelled first', () => {
+    const clock = new ManualClock();
+    const fired = jest.fn();
+    const cancelled = jest.fn();
+    clock.setTimeout(fired, 1000);
+    const cancel = clock.setTimeout(cancelled, 1000);
+
+    clock.advance(999);
+    cancel();
+    expect(clock.advance(5000)).toBe(1);
+    expect(fired).toHaveBeenCalledTimes(1);
+    expect(cancelled).not.toHaveBeenCalled();
+    expect(clock.pendingTimers).toBe(0);
+  });
+});
+
+describe('SystemClock', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should follow real time and timers', () => {
+    jest.useFakeTimers({ now: 5000 });
+    const clock = new SystemClock();
+    const callback = jest.fn();
+    const cancel = clock.setInterval(callback, 1000);
+
+    jest.advanceTimersByTime(3000);
+    expect(clock.now()).toBe(8000);
+    expect(callback).toHaveBeenCalledTimes(3);
+
+    cancel();
+    expect(jest.getTimerCount()).toBe(0);
+  });
+});
@@ -0,0 +1,88 @@
+// src/tests/decayModels.test.ts
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  DecayConfig,
+  DecayModel,
+  ExponentialDecay,
+  LinearDecay,
+  PowerLawDecay,
+  SpacedRepetitionDecay,
+} from '../lib/decayModels';
+import type { EnhancedMemory } from '../lib/vectorStore';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const config: DecayConfig = {
+  baseRate: 0.1,
+  accessBoost: 0.05,
+  importanceMultiplier: 1,
+  minStrength: 0.1,
+  model: 'linear',
+  models: {},
+};
+
+const createMemory = (overrides: Partial<EnhancedMemory> = {}): EnhancedMemory => ({
+  id: 1,
+  type: 'episodic',
+  content: 'memory',
+  vector: new Float32Array(4),
+  timestamp: 0,
+  strength: 1,
+  lastAccessed: 0,
+  accessCount: 0,
+  decayRate: 0.1,
+  importance: 1,
+  predictedRelevance: 0,
+  aiGeneratedTags: [],
+  semanticContext: [],
+  ...overrides,
+});
+
+// Applies decay in `steps` equal passes over `days`, as repeated maintenance runs would
+const decayOver = (model: DecayModel, memory: EnhancedMemory, days: number, steps: number = 1): number => {
+  const current = { ...memory };
+  for (let step = 1; step <= steps; step++) {
+    current.strength = model.decay(current, (days / steps) * DAY, (days * step / steps) * DAY, config);
+  }
+  return current.strength;
+};
+
+describe('Decay models', () => {
+  it('should keep the original linear decrement', () => {
+    expect(decayOver(new LinearDecay(), createMemory(), 2)).toBeCloseTo(0.8);
+  });
+
+  it('should keep linear decay finite for memories without importance', () => {
+    const strength = decayOver(new LinearDecay(), createMemory({ importance: 0 }), 0.01);
+    expect(Number.isFinite(strength)).toBe(true);
+    expect(strength).toBeLessThan(1);
+  });
+
+  it('should follow the Ebbinghaus curve for exponential decay', () => {
+    expect(decayOver(new ExponentialDecay(), createMemory(), 10)).toBeCloseTo(Math.exp(-1));
+  });
+
+  it('should give the same strength however often incremental models run', () => {
+    const memory = createMemory({ accessCount: 3, importance: 0.6 });
+    for (const model of [new LinearDecay(), new ExponentialDecay(), new PowerLawDecay(), new SpacedRepetitionDecay()]) {
+      expect(decayOver(model, memory, 30, 30)).toBeCloseTo(decayOver(model, memory, 30), 10);
+    }
+  });
+
+  it('should keep a longer tail under the power law than exponential decay', () => {
+    const memory = createMemory();
+    expect(decayOver(new PowerLawDecay(), memory, 0.01)).toBeCloseTo(decayOver(new ExponentialDecay(), memory, 0.01), 4);
+    expect(decayOver(new PowerLawDecay(), memory, 100)).toBeGreaterThan(decayOver(new ExponentialDecay(), memory, 100) * 10);
+  });
+
+  it('should lengthen spaced-repetition intervals with each review', () => {
+    const model = new SpacedRepetitionDecay();
+    const intervals = [1, 2, 3, 4].map(accessCount => model.interval(createMemory({ accessCount })));
+    expect(intervals.slice(0, 2)).toEqual([DAY, 6 * DAY]);
+    expect(intervals[3]).toBeGreaterThan(intervals[2]);
+
+    const reviewed = createMemory({ accessCount: 2 });
+    expect(decayOver(model, reviewed, 6)).toBeCloseTo(0.9);
+  });
+});
@@ -0,0 +1,55 @@
+// src/tests/embeddingProvider.test.ts
+
+import { describe, it, expect } from '@jest/globals';
+import { LocalEmbeddingProvider } from '../lib/embeddingProvider';
+
+describe('LocalEmbeddingProvider', () => {
+  const DIMENSION = 256;
+  const cosine = (a: Float32Array, b: Float32Array) => a.reduce((sum, x, i) => sum + x * b[i], 0);
+
+  it('should produce unit-length vectors of the configured dimension', async () => {
+    const provider = new LocalEmbeddingProvider(DIMENSION);
+    const vector = await provider.embed('memory consolidation during sleep');
+
+    expect(vector).toHaveLength(DIMENSION);
+    expect(cosine(vector, vector)).toBeCloseTo(1, 5);
+  });
+
+  it('should be deterministic across instances', async () => {
+    const first = await new LocalEmbeddingProvider(DIMENSION).embed('agent observed a red door');
+    const second = await new LocalEmbeddingProvider(DIMENSION).embed('agent observed a red door');
+
+    expect(Array.from(first)).toEqual(Array.from(second));
+  });
+
+  it('should place related texts closer than unrelated ones', async () => {
+    const provider = new LocalEmbeddingProvider(DIMENSION);
+    const [query, related, unrelated] = await provider.embedBatch([
+      'database connection timeout',
+      'timeout while opening database connection',
+      'picnic by the lake at sunset',
+    ]);
+
+    expect(cosine(query, related)).toBeGreaterThan(cosine(query, unrelated));
+  });
+
+  it('should return a zero vector for empty text', async () => {
+    const vector = await new LocalEmbeddingProvider(DIMENSION).embed('');
+    expect(vector.every(v => v === 0)).toBe(true);
+  });
+
+  it('should change the model id with the seed', () => {
+    const a = new LocalEmbeddingProvider(DIMENSION);
+    const b = new LocalEmbeddingProvider(DIMENSION, { seed: 42 });
+    expect(a.modelId).not.toBe(b.modelId);
+  });
+
+  it('should down-weight common terms after fitting', async () => {
+    const provider = new LocalEmbeddingProvider(DIMENSION);
+    const before = await provider.embed('meeting notes about kubernetes');
+    provider.fit(['meeting notes', 'meeting notes again', 'meeting about kubernetes']);
+    const after = await provider.embed('meeting notes about kubernetes');
+
+    expect(Array.from(after)).not.toEqual(Array.from(before));
+  });
+});
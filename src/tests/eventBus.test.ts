@@ -0,0 +1,75 @@
+// src/tests/eventBus.test.ts
+
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { EventBus, EventHandler } from '../lib/eventBus';
+
+interface TestEvents {
+  ping: { value: number };
+  pong: string;
+}
+
+const handlerFor = <K extends keyof TestEvents>() => jest.fn<EventHandler<TestEvents[K]>>();
+
+describe('EventBus', () => {
+  let bus: EventBus<TestEvents>;
+
+  beforeEach(() => {
+    bus = new EventBus<TestEvents>();
+  });
+
+  it('should deliver payloads to every subscriber of an event', () => {
+    const first = handlerFor<'ping'>();
+    const second = handlerFor<'ping'>();
+    const other = handlerFor<'pong'>();
+    bus.on('ping', first);
+    bus.on('ping', second);
+    bus.on('pong', other);
+
+    bus.emit('ping', { value: 1 });
+
+    expect(first).toHaveBeenCalledWith({ value: 1 });
+    expect(second).toHaveBeenCalledWith({ value: 1 });
+    expect(other).not.toHaveBeenCalled();
+  });
+
+  it('should stop delivering after unsubscribe, off or a once delivery', () => {
+    const handler = handlerFor<'ping'>();
+    const unsubscribe = bus.on('ping', handler);
+    const onceHandler = handlerFor<'ping'>();
+    bus.once('ping', onceHandler);
+
+    bus.emit('ping', { value: 1 });
+    unsubscribe();
+    bus.emit('ping', { value: 2 });
+
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(onceHandler).toHaveBeenCalledTimes(1);
+    expect(bus.listenerCount()).toBe(0);
+  });
+
+  it('should remove a once subscription with off and the original handler', () => {
+    const handler = handlerFor<'ping'>();
+    bus.once('ping', handler);
+    bus.off('ping', handler);
+
+    bus.emit('ping', { value: 1 });
+
+    expect(handler).not.toHaveBeenCalled();
+    expect(bus.listenerCount()).toBe(0);
+  });
+
+  it('should isolate handlers that throw or reject', async () => {
+    const errorSpy = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    const after = handlerFor<'pong'>();
+    bus.on('pong', () => { throw new Error('sync failure'); });
+    bus.on('pong', async () => { throw new Error('async failure'); });
+    bus.on('pong', after);
+
+    expect(() => bus.emit('pong', 'hello')).not.toThrow();
+    await Promise.resolve();
+
+    expect(after).toHaveBeenCalledWith('hello');
+    expect(errorSpy).toHaveBeenCalledTimes(2);
+    errorSpy.mockRestore();
+  });
+});
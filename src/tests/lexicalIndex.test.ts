@@ -0,0 +1,47 @@
+// src/tests/lexicalIndex.test.ts
+
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import { LexicalIndex } from '../lib/lexicalIndex';
+
+describe('LexicalIndex', () => {
+  let index: LexicalIndex;
+
+  beforeEach(() => {
+    index = new LexicalIndex();
+    index.add(1, 'Incident INC-4821 escalated to the on-call engineer');
+    index.add(2, 'Routine deploy of the billing service');
+    index.add(3, 'Billing incident postmortem and follow-up actions');
+  });
+
+  it('should match exact identifiers', () => {
+    const results = index.search('INC-4821', 5);
+    expect(results).toHaveLength(1);
+    expect(results[0].id).toBe(1);
+  });
+
+  it('should rank shorter documents higher for the same term frequency', () => {
+    const results = index.search('billing', 5);
+    expect(results.map(r => r.id)).toEqual([2, 3]);
+  });
+
+  it('should stop returning removed documents', () => {
+    expect(index.remove(3)).toBe(true);
+    expect(index.search('postmortem', 5)).toHaveLength(0);
+    expect(index.size).toBe(2);
+  });
+
+  it('should replace the document when re-adding an id', () => {
+    index.add(2, 'Quarterly planning offsite');
+    expect(index.search('billing', 5).map(r => r.id)).toEqual([3]);
+    expect(index.search('offsite', 5)[0].id).toBe(2);
+  });
+
+  it('should apply the id filter while scoring', () => {
+    const results = index.search('billing incident', 5, id => id !== 3);
+    expect(results.map(r => r.id)).toEqual([2, 1]);
+  });
+
+  it('should index compound tokens whole and by parts', () => {
+    expect(LexicalIndex.tokenize('release v2.3')).toEqual(['release', 'v2.3', 'v2', '3']);
+  });
+});
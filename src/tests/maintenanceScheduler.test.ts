@@ -0,0 +1,107 @@
+// src/tests/maintenanceScheduler.test.ts
+
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import { MaintenanceScheduler, MaintenanceProgress } from '../lib/maintenanceScheduler';
+import { ManualClock } from '../lib/clock';
+
+describe('MaintenanceScheduler', () => {
+  let calls: string[];
+  let progress: MaintenanceProgress[];
+
+  const createScheduler = (shouldRun: () => Promise<boolean> = async () => true) => new MaintenanceScheduler(
+    [
+      { name: 'decay', run: async () => { calls.push('decay'); return { archived: 2 }; } },
+      { name: 'indexes', run: async () => { calls.push('indexes'); } },
+    ],
+    { interval: 1000 },
+    { shouldRun, onProgress: p => progress.push(p) }
+  );
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    calls = [];
+    progress = [];
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('should run every step in order and report progress', async () => {
+    const report = await createScheduler().runNow();
+
+    expect(calls).toEqual(['decay', 'indexes']);
+    expect(report.steps.map(s => s.name)).toEqual(['decay', 'indexes']);
+    expect(report.counts).toEqual({ archived: 2 });
+    expect(progress.map(p => `${p.step}:${p.status}`)).toEqual([
+      'decay:started', 'decay:completed', 'indexes:started', 'indexes:completed',
+    ]);
+    expect(progress[2]).toMatchObject({ index: 1, total: 2 });
+  });
+
+  it('should join an in-flight run instead of starting another', async () => {
+    const scheduler = createScheduler();
+    const [first, second] = await Promise.all([scheduler.runNow(), scheduler.runNow()]);
+
+    expect(first).toBe(second);
+    expect(calls).toEqual(['decay', 'indexes']);
+  });
+
+  it('should stop at a failing step and report it', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    const scheduler = new MaintenanceScheduler([
+      { name: 'decay', run: async () => { throw new Error('Decay error'); } },
+      { name: 'indexes', run: async () => { calls.push('indexes'); } },
+    ], {}, { onProgress: p => progress.push(p) });
+
+    const report = await scheduler.runNow();
+    expect(report.error?.message).toBe('Decay error');
+    expect(calls).toEqual([]);
+    expect(progress.map(p => p.status)).toEqual(['started', 'failed']);
+  });
+
+  it('should run on the timer only while started and triggered', async () => {
+    let triggered = false;
+    const scheduler = createScheduler(async () => triggered);
+    scheduler.start();
+
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(calls).toEqual([]);
+
+    triggered = true;
+    await jest.advanceTimersByTimeAsync(1000);
+    expect(calls).toEqual(['decay', 'indexes']);
+
+    scheduler.stop();
+    await jest.advanceTimersByTimeAsync(5000);
+    expect(calls).toHaveLength(2);
+    expect(scheduler.getStatus().scheduled).toBe(false);
+  });
+
+  it('should follow an injected clock', async () => {
+    const clock = new ManualClock(0);
+    const scheduler = new MaintenanceScheduler(
+      [{ name: 'decay', run: async () => { calls.push('decay'); clock.advance(250); } }],
+      { interval: 1000 },
+      {},
+      clock
+    );
+    scheduler.start();
+
+    clock.advance(1000);
+    const report = await scheduler.runNow();
+    expect(calls).toEqual(['decay']);
+    expect(report).toMatchObject({ startedAt: 1000, duration: 250 });
+    expect(jest.getTimerCount()).toBe(0);
+  });
+
+  it('should refuse to run or restart after dispose', async () => {
+    const scheduler = createScheduler();
+    scheduler.start();
+    await scheduler.dispose();
+
+    expect(jest.getTimerCount()).toBe(0);
+    expect(() => scheduler.start()).toThrow('disposed');
+    await expect(scheduler.runNow()).rejects.toThrow('disposed');
+  });
+});
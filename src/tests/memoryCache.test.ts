@@ -0,0 +1,438 @@
+// src/tests/memoryCache.test.ts
+
+import { describe, it, expect, jest } from '@jest/globals';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { MemoryCache, memoryTag } from '../lib/optimizations/memoryCacheManager';
+import { ArcPolicy, EvictionPolicy, EvictionPolicyName, LruPolicy, WTinyLfuPolicy } from '../lib/optimizations/evictionPolicies';
+import { ManualClock } from '../lib/clock';
+
+const POLICIES: EvictionPolicyName[] = ['lru', 'lfu', 'arc', 'w-tinylfu'];
+
+const seededRandom = (seed: number) => {
+  let state = seed;
+  return () => {
+    state = (state * 1103515245 + 12345) % 2147483648;
+    return state / 2147483648;
+  };
+};
+
+// Agent lookups skewed towards a hot set, interrupted by maintenance scans over every stored memory
+const scanPollutedTrace = (): string[] => {
+  const random = seededRandom(11);
+  const trace: string[] = [];
+  for (let round = 0; round < 20; round++) {
+    for (let i = 0; i < 500; i++) trace.push(`memory:${Math.floor(60 * random() ** 2)}`);
+    for (let i = 0; i < 400; i++) trace.push(`memory:${1000 + round * 400 + i}`);
+  }
+  return trace;
+};
+
+// Working set that moves to new keys halfway through, leaving stale high counts behind
+const shiftingTrace = (): string[] => {
+  const random = seededRandom(23);
+  const trace: string[] = [];
+  for (let i = 0; i < 8000; i++) trace.push(`memory:${Math.floor(80 * random())}`);
+  for (let i = 0; i < 8000; i++) trace.push(`memory:${200 + Math.floor(80 * random())}`);
+  return trace;
+};
+
+// Query-cache lookups recorded from a store session; see the fixture's description
+const recordedQueryTrace = (): string[] => {
+  const { accesses } = JSON.parse(fs.readFileSync(path.join(__dirname, 'fixtures', 'queryCacheTrace.json'), 'utf-8'));
+  return accesses.map((id: number) => `query:${id}`);
+};
+
+// Wraps a loader and counts its calls
+const countingLoader = <T>(fn: () => Promise<T>) => {
+  let count = 0;
+  return {
+    fn: () => {
+      count++;
+      return fn();
+    },
+    calls: () => count,
+  };
+};
+
+// Drives a policy the way MemoryCache does for a cache limited to `capacity` entries
+const residentKeys = (policy: EvictionPolicy, capacity: number) => {
+  const keys = new Set<string>();
+  const admit = (key: string) => {
+    if (keys.size >= capacity) {
+      const victim = policy.selectVictim(key)!;
+      policy.recordRemoval(victim, true);
+      keys.delete(victim);
+    }
+    policy.recordInsert(key);
+    keys.add(key);
+  };
+  return { keys, admit };
+};
+
+const hitRate = async (policy: EvictionPolicyName, trace: string[], maxEntries = 100): Promise<number> => {
+  const cache = new MemoryCache({ maxEntries, evictionPolicy: policy }, new ManualClock());
+  for (const key of trace) {
+    if (await cache.get(key) === null) await cache.set(key, key);
+  }
+  return cache.getStats().hitRate;
+};
+
+describe('MemoryCache eviction policies', () => {
+  it('should enforce the entry limit by evicting the policy victim', async () => {
+    const cache = new MemoryCache({ maxEntries: 2, evictionPolicy: 'lru' }, new ManualClock());
+    await cache.set('a', 1);
+    await cache.set('b', 2);
+    await cache.get('a');
+    await cache.set('c', 3);
+
+    expect(await cache.get('a')).toBe(1);
+    expect(await cache.get('b')).toBeNull();
+    expect(cache.getStats()).toMatchObject({ entryCount: 2, hitRate: 2 / 3 });
+  });
+
+  it('should evict by frequency with lfu and accept custom policies', async () => {
+    const lfu = new MemoryCache({ maxEntries: 2, evictionPolicy: 'lfu' }, new ManualClock());
+    await lfu.set('a', 1);
+    await lfu.set('b', 2);
+    await lfu.get('a');
+    await lfu.get('b');
+    await lfu.get('b');
+    await lfu.set('c', 3);
+    expect(await lfu.get('a')).toBeNull();
+    expect(await lfu.get('b')).toBe(2);
+
+    const policy = new LruPolicy();
+    const custom = new MemoryCache({ maxEntries: 1, evictionPolicy: policy }, new ManualClock());
+    await custom.set('a', 1);
+    await custom.delete('a');
+    expect(policy.selectVictim()).toBeUndefined();
+  });
+
+  it('should grow the arc recent list when evicted recent keys return', () => {
+    const arc = new ArcPolicy(4);
+    const resident = residentKeys(arc, 4);
+    ['a', 'b', 'c', 'd'].forEach(resident.admit);
+    arc.recordHit('a');
+    arc.recordHit('b');
+    resident.admit('e');
+    resident.admit('f');
+    expect(resident.keys).toEqual(new Set(['a', 'b', 'e', 'f']));
+
+    // c and d were evicted from the recent list; c coming back raises its target above the one key left
+    resident.admit('c');
+    expect(arc.selectVictim('g')).toBe('a');
+  });
+
+  it('should keep one-off keys out of the w-tinylfu main region', () => {
+    const policy = new WTinyLfuPolicy(10);
+    const resident = residentKeys(policy, 10);
+    for (let i = 0; i < 10; i++) resident.admit(`hot:${i}`);
+    for (let round = 0; round < 5; round++) for (let i = 0; i < 9; i++) policy.recordHit(`hot:${i}`);
+
+    for (let i = 0; i < 20; i++) resident.admit(`scan:${i}`);
+    for (let i = 0; i < 9; i++) expect(resident.keys.has(`hot:${i}`)).toBe(true);
+    expect(resident.keys.has('scan:19')).toBe(true);
+  });
+
+  it('should stop scans from flushing the hot set', async () => {
+    const trace = scanPollutedTrace();
+    const rates = Object.fromEntries(await Promise.all(POLICIES.map(async p => [p, await hitRate(p, trace)])));
+
+    expect(rates['lfu']).toBeGreaterThan(rates['lru']);
+    expect(rates['arc']).toBeGreaterThan(rates['lru']);
+    expect(rates['w-tinylfu']).toBeGreaterThan(rates['lru'] + 0.04);
+  });
+
+  it('should follow a shifting working set', async () => {
+    const trace = shiftingTrace();
+    const rates = Object.fromEntries(await Promise.all(POLICIES.map(async p => [p, await hitRate(p, trace)])));
+
+    expect(rates['lru']).toBeGreaterThan(rates['lfu']);
+    expect(rates['arc']).toBeGreaterThan(rates['lfu']);
+    expect(rates['w-tinylfu']).toBeGreaterThan(rates['lfu']);
+  });
+
+  it('should keep recurring queries of a recorded session through its review scans', async () => {
+    const trace = recordedQueryTrace();
+    const rates = Object.fromEntries(await Promise.all(POLICIES.map(async p => [p, await hitRate(p, trace, 40)])));
+
+    expect(rates['lfu']).toBeGreaterThan(rates['lru'] + 0.04);
+    expect(rates['arc']).toBeGreaterThan(rates['lru'] + 0.04);
+    expect(rates['w-tinylfu']).toBeGreaterThan(rates['lru'] + 0.04);
+  });
+});
+
+describe('MemoryCache query results', () => {
+  const vector = (...values: number[]) => Float32Array.from(values);
+  const scope = (partitions: string[] = ['p1']) => ({ k: 2, threshold: 0.5, partitions });
+  const results = (...ids: number[]) => ids.map(memoryId => ({ memoryId, similarity: 0.9 }));
+
+  it('should serve queries within the cosine tolerance and matching scope', async () => {
+    const cache = new MemoryCache({ queryTolerance: 0.01 }, new ManualClock());
+    await cache.storeSimilarityResults(vector(1, 0, 0), 'episodic', results(1, 2), scope());
+
+    expect(await cache.getSimilar(vector(2, 0.1, 0), 'episodic', scope())).toEqual(results(1, 2));
+    expect(await cache.getSimilar(vector(1, 0.5, 0), 'episodic', scope())).toBeNull();
+    expect(await cache.getSimilar(vector(1, 0, 0), 'semantic', scope())).toBeNull();
+    expect(await cache.getSimilar(vector(1, 0, 0), 'episodic', { ...scope(), k: 3 })).toBeNull();
+    expect(await cache.getSimilar(vector(1, 0, 0), 'episodic', scope(['p1', 'p2']))).toBeNull();
+
+    await cache.storeSimilarityResults(vector(1, 0.01, 0), 'episodic', results(3), scope());
+    expect(cache.getStats().entryCount).toBe(1);
+    expect(await cache.getSimilar(vector(1, 0, 0), 'episodic', scope())).toEqual(results(3));
+  });
+
+  it('should only invalidate the queries a change can affect', async () => {
+    const cache = new MemoryCache({}, new ManualClock());
+    await cache.storeSimilarityResults(vector(1, 0, 0), 'episodic', results(1), scope(['p1']));
+    await cache.storeSimilarityResults(vector(0, 1, 0), 'episodic', results(2), scope(['p2']));
+    await cache.storeSimilarityResults(vector(0, 0, 1), 'episodic', results(3), scope([]));
+    await cache.storeSimilarityResults(vector(1, 0, 0), 'semantic', results(1), scope(['p1']));
+
+    // Removing a memory nobody returned changes nothing
+    expect(cache.invalidateQueries('episodic', { memoryId: 9 })).toBe(0);
+    // Indexing into p2 affects queries routed there and whole-type searches
+    expect(cache.invalidateQueries('episodic', { memoryId: 9, partition: 'p2' })).toBe(2);
+    expect(await cache.getSimilar(vector(1, 0, 0), 'episodic', scope(['p1']))).toEqual(results(1));
+
+    expect(cache.invalidateQueries('episodic', { memoryId: 1 })).toBe(1);
+    expect(await cache.getSimilar(vector(1, 0, 0), 'semantic', scope(['p1']))).toEqual(results(1));
+    expect(cache.invalidateQueries('semantic')).toBe(1);
+    expect(cache.getStats().entryCount).toBe(0);
+  });
+
+  it('should report query misses to the eviction policy under the key the query is cached with', async () => {
+    const policy = new WTinyLfuPolicy(100);
+    const recordMiss = jest.spyOn(policy, 'recordMiss');
+    const recordInsert = jest.spyOn(policy, 'recordInsert');
+    const cache = new MemoryCache({ evictionPolicy: policy }, new ManualClock());
+
+    expect(await cache.getSimilar(vector(1, 0, 0), 'episodic', scope())).toBeNull();
+    await cache.storeSimilarityResults(vector(1, 0, 0), 'episodic', results(1), scope());
+    cache.invalidateQueries('episodic');
+    expect(await cache.getSimilar(vector(2, 0, 0), 'episodic', scope())).toBeNull();
+
+    const [key] = recordInsert.mock.calls[0];
+    expect(recordMiss.mock.calls).toEqual([[key], [key]]);
+  });
+
+  it('should expire cached queries with the ttl', async () => {
+    const clock = new ManualClock();
+    const cache = new MemoryCache({ ttl: 1000 }, clock);
+    await cache.storeSimilarityResults(vector(1, 0), 'episodic', results(1), scope());
+
+    clock.advance(1001);
+    expect(await cache.getSimilar(vector(1, 0), 'episodic', scope())).toBeNull();
+    expect(cache.getStats().entryCount).toBe(0);
+  });
+});
+
+describe('MemoryCache disk tier', () => {
+  const tempDir = () => fs.mkdtempSync(path.join(os.tmpdir(), 'memory-cache-'));
+
+  it('should spill evicted entries to disk and promote them on access', async () => {
+    const diskPath = path.join(tempDir(), 'spill');
+    const cache = new MemoryCache({ maxEntries: 2, diskPath }, new ManualClock());
+    await cache.set('a', { value: 1 });
+    await cache.set('b', { value: 2 });
+    await cache.set('c', { value: 3 });
+    expect(cache.getStats()).toMatchObject({ entryCount: 2, diskEntryCount: 1 });
+    expect(fs.readdirSync(diskPath)).toHaveLength(1);
+
+    // Promoting a pushes b out to disk in its place
+    expect(await cache.get('a')).toEqual({ value: 1 });
+    expect(await cache.get('b')).toEqual({ value: 2 });
+    expect(cache.getStats()).toMatchObject({ entryCount: 2, diskEntryCount: 1, hitRate: 1 });
+
+    await cache.delete('c');
+    await cache.clear();
+    expect(fs.readdirSync(diskPath)).toHaveLength(0);
+  });
+
+  it('should expire spilled entries and respect the disk limit', async () => {
+    const clock = new ManualClock();
+    const cache = new MemoryCache({ maxEntries: 1, ttl: 1000, diskPath: tempDir(), diskMaxSize: 40 }, clock);
+    await cache.set('a', 'first');
+    clock.advance(600);
+    await cache.set('b', 'second');
+    await cache.set('c', 'third');
+    expect(cache.getStats().diskEntryCount).toBe(2);
+    // Each string takes about 15 bytes, so spilling c pushes out a, the oldest spill
+    await cache.set('d', 'fourth');
+    expect(cache.getStats().diskEntryCount).toBe(2);
+    expect(await cache.get('a')).toBeNull();
+
+    clock.advance(500);
+    expect(await cache.get('b')).toBe('second');
+    clock.advance(600);
+    expect(await cache.get('c')).toBeNull();
+  });
+
+  it('should survive a restart with both tiers and the ttl intact', async () => {
+    const dir = tempDir();
+    const clock = new ManualClock();
+    const cache = new MemoryCache({ maxEntries: 2, ttl: 1000, diskPath: path.join(dir, 'spill') }, clock);
+    await cache.set('old', 'expires');
+    clock.advance(500);
+    await cache.set('a', 'kept on disk');
+    await cache.set('b', 'kept in ram');
+    await cache.storeSimilarityResults(Float32Array.from([1, 0]), 'episodic', [{ memoryId: 1, similarity: 0.9 }], { k: 1, threshold: 0, partitions: [] });
+    await cache.save(path.join(dir, 'cache'));
+
+    const restarted = new MemoryCache({ maxEntries: 2, ttl: 1000, diskPath: path.join(dir, 'spill') }, new ManualClock(1200));
+    await restarted.load(path.join(dir, 'cache'));
+    expect(restarted.getStats()).toMatchObject({ entryCount: 2, diskEntryCount: 1 });
+    expect(await restarted.getSimilar(Float32Array.from([1, 0]), 'episodic', { k: 1, threshold: 0, partitions: [] })).toEqual([
+      { memoryId: 1, similarity: 0.9 },
+    ]);
+    expect(await restarted.get('old')).toBeNull();
+    expect(await restarted.get('a')).toBe('kept on disk');
+    expect(await restarted.get('b')).toBe('kept in ram');
+
+    await restarted.load(path.join(dir, 'missing'));
+    expect(restarted.getStats()).toMatchObject({ entryCount: 0, diskEntryCount: 0 });
+  });
+});
+
+describe('MemoryCache tags', () => {
+  it('should invalidate tagged entries in both tiers', async () => {
+    const diskPath = fs.mkdtempSync(path.join(os.tmpdir(), 'memory-cache-'));
+    const cache = new MemoryCache({ maxEntries: 2, diskPath }, new ManualClock());
+    await cache.set('a', 1, { tags: ['cluster:episodic:1', 'type:episodic'] });
+    await cache.set('b', 2, { tags: ['cluster:episodic:2'] });
+    await cache.set('c', 3, { tags: ['cluster:episodic:1'] });
+    expect(cache.getStats().diskEntryCount).toBe(1);
+
+    expect(await cache.invalidateByTag('cluster:episodic:1')).toBe(2);
+    expect(await cache.get('a')).toBeNull();
+    expect(await cache.get('c')).toBeNull();
+    expect(await cache.get('b')).toBe(2);
+    expect(fs.readdirSync(diskPath)).toHaveLength(0);
+    expect(await cache.invalidateByTag('type:episodic')).toBe(0);
+  });
+
+  it('should replace tags when a key is set again', async () => {
+    const cache = new MemoryCache({}, new ManualClock());
+    await cache.set('a', 1, { tags: ['old'] });
+    await cache.set('a', 2, { tags: ['new'] });
+
+    expect(await cache.invalidateByTag('old')).toBe(0);
+    expect(await cache.invalidateByTag('new', 'missing')).toBe(1);
+    expect(await cache.get('a')).toBeNull();
+  });
+
+  it('should tag query results with the memories they returned and keep tags across save and load', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'memory-cache-'));
+    const cache = new MemoryCache({}, new ManualClock());
+    const scope = { k: 2, threshold: 0, partitions: [] };
+    await cache.storeSimilarityResults(Float32Array.from([1, 0]), 'episodic', [{ memoryId: 4, similarity: 0.9 }], scope);
+    await cache.set('summary', 'about 5', { tags: [memoryTag('episodic', 5)] });
+    await cache.save(path.join(dir, 'cache'));
+
+    const restored = new MemoryCache({}, new ManualClock());
+    await restored.load(path.join(dir, 'cache'));
+    expect(await restored.invalidateByTag(memoryTag('episodic', 4), memoryTag('episodic', 5))).toBe(2);
+    expect(await restored.getSimilar(Float32Array.from([1, 0]), 'episodic', scope)).toBeNull();
+  });
+});
+
+describe('MemoryCache getOrCompute', () => {
+  const deferred = <T>() => {
+    let resolve!: (value: T) => void;
+    let reject!: (error: Error) => void;
+    const promise = new Promise<T>((res, rej) => {
+      resolve = res;
+      reject = rej;
+    });
+    return { promise, resolve, reject };
+  };
+  const flush = () => new Promise(resolve => setImmediate(resolve));
+
+  it('should coalesce concurrent misses into one loader call', async () => {
+    const cache = new MemoryCache({}, new ManualClock());
+    const pending = deferred<string>();
+    let calls = 0;
+    const loader = () => {
+      calls++;
+      return pending.promise;
+    };
+
+    const results = Promise.all(Array.from({ length: 5 }, () => cache.getOrCompute('view', loader)));
+    pending.resolve('rendered');
+    expect(await results).toEqual(Array(5).fill('rendered'));
+    expect(await cache.getOrCompute('view', loader)).toBe('rendered');
+    expect(calls).toBe(1);
+  });
+
+  it('should serve stale values while one refresh runs', async () => {
+    const clock = new ManualClock();
+    const cache = new MemoryCache({ ttl: 1000 }, clock);
+    let version = 0;
+    const loader = countingLoader(async () => `v${++version}`);
+    await cache.getOrCompute('view', loader.fn, { staleWindow: 500 });
+
+    clock.advance(1200);
+    expect(await cache.get('view')).toBeNull();
+    const [first, second] = await Promise.all([
+      cache.getOrCompute('view', loader.fn, { staleWindow: 500 }),
+      cache.getOrCompute('view', loader.fn, { staleWindow: 500 }),
+    ]);
+    expect([first, second]).toEqual(['v1', 'v1']);
+    expect(loader.calls()).toBe(2);
+    await flush();
+    expect(await cache.getOrCompute('view', loader.fn, { staleWindow: 500 })).toBe('v2');
+
+    // Past the stale window callers wait for the loader
+    clock.advance(1600);
+    expect(await cache.getOrCompute('view', loader.fn, { staleWindow: 500 })).toBe('v3');
+  });
+
+  it('should cache null results instead of reloading them', async () => {
+    const cache = new MemoryCache({}, new ManualClock());
+    const loader = countingLoader(async () => null);
+
+    expect(await cache.getOrCompute('lookup:unknown', loader.fn)).toBeNull();
+    expect(await cache.getOrCompute('lookup:unknown', loader.fn)).toBeNull();
+    expect(loader.calls()).toBe(1);
+  });
+
+  it('should remember loader failures for the error ttl', async () => {
+    const clock = new ManualClock();
+    const cache = new MemoryCache({ errorTtl: 1000 }, clock);
+    const loader = countingLoader(async (): Promise<string> => {
+      throw new Error('backend down');
+    });
+
+    await expect(cache.getOrCompute('view', loader.fn)).rejects.toThrow('backend down');
+    await expect(cache.getOrCompute('view', loader.fn)).rejects.toThrow('backend down');
+    expect(loader.calls()).toBe(1);
+
+    clock.advance(1001);
+    await expect(cache.getOrCompute('view', loader.fn)).rejects.toThrow('backend down');
+    expect(loader.calls()).toBe(2);
+
+    await cache.set('view', 'recovered');
+    expect(await cache.getOrCompute('view', loader.fn)).toBe('recovered');
+    await expect(cache.getOrCompute('other', loader.fn, { errorTtl: 0 })).rejects.toThrow('backend down');
+    await expect(cache.getOrCompute('other', loader.fn, { errorTtl: 0 })).rejects.toThrow('backend down');
+    expect(loader.calls()).toBe(4);
+  });
+
+  it('should not cache a load that was invalidated while it ran', async () => {
+    const cache = new MemoryCache({}, new ManualClock());
+    const pending = deferred<string>();
+    const started = deferred<void>();
+    const result = cache.getOrCompute('summary:1', () => {
+      started.resolve();
+      return pending.promise;
+    }, { tags: [memoryTag('episodic', 1)] });
+
+    await started.promise;
+    await cache.invalidateByTag(memoryTag('episodic', 1));
+    pending.resolve('computed from old data');
+    expect(await result).toBe('computed from old data');
+    expect(await cache.get('summary:1')).toBeNull();
+  });
+});
@@ -0,0 +1,58 @@
+// src/tests/memoryGraph.test.ts
+
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import { MemoryGraph } from '../lib/memoryGraph';
+
+describe('MemoryGraph', () => {
+  let graph: MemoryGraph;
+
+  beforeEach(() => {
+    graph = new MemoryGraph();
+    graph.addEdge('episodic', 1, 2, 'similar-to', 0.9);
+    graph.addEdge('episodic', 3, 2, 'follows');
+    graph.addEdge('episodic', 4, 3, 'caused-by');
+    graph.addEdge('episodic', 5, 6, 'contradicts');
+  });
+
+  it('should return neighbours in both directions by default', () => {
+    const neighbors = graph.getNeighbors('episodic', 2);
+    expect(neighbors.map(n => n.id).sort()).toEqual([1, 3]);
+    expect(graph.getNeighbors('episodic', 2, { direction: 'out' })).toHaveLength(0);
+    expect(graph.getNeighbors('episodic', 2, { relations: ['follows'] }).map(n => n.id)).toEqual([3]);
+  });
+
+  it('should replace the weight of duplicate edges and ignore self-loops', () => {
+    graph.addEdge('episodic', 1, 2, 'similar-to', 0.5);
+    expect(graph.getEdges('episodic', 1)).toHaveLength(1);
+    expect(graph.getEdges('episodic', 1)[0].weight).toBe(0.5);
+    expect(graph.addEdge('episodic', 1, 1, 'similar-to')).toBeNull();
+  });
+
+  it('should find the shortest path between memories', () => {
+    const path = graph.getPath('episodic', 1, 4)!;
+    expect(path.map(e => e.relation)).toEqual(['similar-to', 'follows', 'caused-by']);
+    expect(graph.getPath('episodic', 1, 1)).toEqual([]);
+    expect(graph.getPath('episodic', 1, 5)).toBeNull();
+    expect(graph.getPath('episodic', 1, 4, { maxDepth: 2 })).toBeNull();
+  });
+
+  it('should extract subgraphs up to a depth', () => {
+    const subgraph = graph.getSubgraph('episodic', 2, 1);
+    expect(subgraph.nodes.sort()).toEqual([1, 2, 3]);
+    expect(subgraph.edges).toHaveLength(2);
+    expect(graph.getSubgraph('episodic', 2, 2).nodes.sort()).toEqual([1, 2, 3, 4]);
+    expect(graph.getDepth('episodic', 1)).toBe(3);
+  });
+
+  it('should drop every edge of a removed node', () => {
+    expect(graph.removeNode('episodic', 3)).toBe(2);
+    expect(graph.getPath('episodic', 1, 4)).toBeNull();
+    expect(graph.size('episodic')).toBe(2);
+  });
+
+  it('should keep memory types separate', () => {
+    graph.addEdge('semantic', 1, 7, 'similar-to');
+    expect(graph.getNeighbors('episodic', 1).map(n => n.id)).toEqual([2]);
+    expect(graph.getNeighbors('semantic', 1).map(n => n.id)).toEqual([7]);
+  });
+});
@@ -8,10 +8,15 @@ import { EnhancedVectorStore } from '../lib/vectorStore';
 
 // Mock VectorStore and dependencies
 jest.mock('../lib/vectorStore', () => ({
+  DEFAULT_NAMESPACE: 'default',
   EnhancedVectorStore: jest.fn().mockImplementation(() => ({
+    namespace: jest.fn(),
+    listNamespaces: jest.fn(),
     getAllClusters: jest.fn(),
     getClusterDynamics: jest.fn(),
+    getClusterMetadata: jest.fn(),
     getClusterMemories: jest.fn(),
+    getNeighbors: jest.fn(),
     getStoreTelemetry: jest.fn(),
     clusterMemories: jest.fn(),
     mergeClusters: jest.fn(),
@@ -27,6 +32,8 @@ describe('MemoryVisualizer', () => {
   beforeEach(() => {
     jest.useFakeTimers();
     mockVectorStore = new EnhancedVectorStore() as jest.Mocked<EnhancedVectorStore>;
+    mockVectorStore.namespace.mockReturnValue(mockVectorStore);
+    mockVectorStore.listNamespaces.mockReturnValue(['default', 'agent-a']);
 
     // Mock cluster data
     mockVectorStore.getAllClusters.mockResolvedValue([
@@ -83,6 +90,9 @@ describe('MemoryVisualizer', () => {
       },
     ]);
 
+    // Mock relationship graph
+    mockVectorStore.getNeighbors.mockResolvedValue([]);
+
     // Mock telemetry
     mockVectorStore.getStoreTelemetry.mockResolvedValue({
       memoryCount: 10,
@@ -115,6 +125,15 @@ describe('MemoryVisualizer', () => {
       });
     });
 
+    it('should build points from the listed cluster metadata and the neighbours of each memory', async () => {
+      render(<MemoryVisualizer vectorStore={mockVectorStore} memoryType={mockMemoryType} />);
+
+      await waitFor(() => {
+        expect(mockVectorStore.getNeighbors).toHaveBeenCalledTimes(2); // One memory in each of two clusters
+      });
+      expect(mockVectorStore.getClusterMetadata).not.toHaveBeenCalled();
+    });
+
     it('should render view mode controls including particle mode', () => {
       render(<MemoryVisualizer vectorStore={mockVectorStore} memoryType={mockMemoryType} />);
 
@@ -183,6 +202,29 @@ describe('MemoryVisualizer', () => {
       });
     });
 
+    it('should load the namespace picked in the namespace selector', async () => {
+      const agentStore = new EnhancedVectorStore() as jest.Mocked<EnhancedVectorStore>;
+      agentStore.getAllClusters.mockResolvedValue([]);
+      agentStore.getClusterDynamics.mockResolvedValue({ growth: [], stability: [], mergeRecommendations: [] });
+      mockVectorStore.namespace.mockImplementation(name => (name === 'agent-a' ? agentStore : mockVectorStore));
+      const onNamespaceChange = jest.fn();
+
+      render(
+        <MemoryVisualizer
+          vectorStore={mockVectorStore}
+          memoryType={mockMemoryType}
+          onNamespaceChange={onNamespaceChange}
+        />
+      );
+      await waitFor(() => expect(screen.getByText('agent-a')).toBeInTheDocument());
+
+      fireEvent.change(screen.getByRole('combobox', { name: 'Namespace' }), { target: { value: 'agent-a' } });
+      await waitFor(() => {
+        expect(onNamespaceChange).toHaveBeenCalledWith('agent-a');
+        expect(agentStore.getAllClusters).toHaveBeenCalledWith('episodic');
+      });
+    });
+
     it('should zoom in and out with smooth transitions', async () => {
       const { container } = render(
         <MemoryVisualizer vectorStore={mockVectorStore} memoryType={mockMemoryType} />
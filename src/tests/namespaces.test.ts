@@ -0,0 +1,166 @@
+// src/tests/namespaces.test.ts
+
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { EnhancedVectorStore, EnhancedMemory, MemoryType } from '../lib/vectorStore';
+import { LocalEmbeddingProvider } from '../lib/embeddingProvider';
+import { ManualClock } from '../lib/clock';
+
+jest.useFakeTimers();
+
+describe('EnhancedVectorStore namespaces', () => {
+  const DIMENSION = 64;
+  const embeddingProvider = new LocalEmbeddingProvider(DIMENSION);
+  let storePath: string;
+  let vectorStore: EnhancedVectorStore;
+
+  const createMemory = (id: number, type: MemoryType = 'episodic', overrides: Partial<EnhancedMemory> = {}): EnhancedMemory => ({
+    id,
+    type,
+    content: `memory ${id}`,
+    vector: new Float32Array(DIMENSION).map(() => Math.random()),
+    timestamp: Date.now(),
+    strength: 1,
+    emotions: ['joy'],
+    lastAccessed: Date.now(),
+    accessCount: 0,
+    decayRate: 0.01,
+    importance: 0.5,
+    predictedRelevance: 0,
+    aiGeneratedTags: [],
+    semanticContext: [],
+    ...overrides,
+  });
+
+  const activeIds = async (store: EnhancedVectorStore) =>
+    (await store['getAllMemories']('episodic')).map(m => m.id).sort((a, b) => a - b);
+
+  const reopen = async () => {
+    const store = new EnhancedVectorStore(DIMENSION, 1000, embeddingProvider);
+    await store.open(storePath, { fsync: false });
+    return store;
+  };
+
+  beforeEach(() => {
+    storePath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'vector-store-')), 'store');
+    vectorStore = new EnhancedVectorStore(DIMENSION, 1000, embeddingProvider);
+  });
+
+  afterEach(async () => {
+    await vectorStore.dispose();
+  });
+
+  it('should list, create and drop namespaces', async () => {
+    expect(vectorStore.listNamespaces()).toEqual(['default']);
+    expect(vectorStore.namespace('default')).toBe(vectorStore);
+
+    const agent = await vectorStore.createNamespace('agent-b');
+    await vectorStore.createNamespace('agent-a');
+    expect(vectorStore.listNamespaces()).toEqual(['default', 'agent-a', 'agent-b']);
+    expect(vectorStore.namespace('agent-b')).toBe(agent);
+
+    await expect(vectorStore.createNamespace('agent-a')).rejects.toThrow('Namespace already exists: agent-a');
+    await expect(vectorStore.createNamespace('../escape')).rejects.toThrow('Invalid namespace name');
+    await expect(agent.createNamespace('nested')).rejects.toThrow('cannot manage namespaces');
+
+    expect(await vectorStore.dropNamespace('agent-b')).toBe(true);
+    expect(await vectorStore.dropNamespace('agent-b')).toBe(false);
+    await expect(vectorStore.dropNamespace('default')).rejects.toThrow('cannot be dropped');
+    expect(() => vectorStore.namespace('agent-b')).toThrow('Unknown namespace: agent-b');
+  });
+
+  it('should isolate memories, anomalies and telemetry per namespace', async () => {
+    const agent = await vectorStore.createNamespace('agent');
+    const vector = new Float32Array(DIMENSION).fill(0.5);
+    await vectorStore.addMemory(createMemory(1, 'episodic', { vector }));
+    await agent.addMemory(createMemory(1, 'episodic', { vector, content: 'agent memory' }));
+    await agent.addMemory(createMemory(2, 'episodic', { strength: 0.05 }));
+    agent['logAnomaly']('strength_drop', 0.05);
+
+    expect(await activeIds(vectorStore)).toEqual([1]);
+    expect(await activeIds(agent)).toEqual([1, 2]);
+    expect((await vectorStore['getMemory']('episodic', 1)).content).toBe('memory 1');
+
+    const similar = await agent.findSimilar(vector, 'episodic', 5, 0);
+    expect(similar.map(r => r.memoryId).sort()).toEqual([1, 2]);
+    expect((await vectorStore.getStoreTelemetry('episodic')).anomalyEvents).toEqual([]);
+    expect((await agent.getStoreTelemetry('episodic')).memoryCount).toBe(2);
+  });
+
+  it('should cancel every timer of dropped namespaces and disposed stores', async () => {
+    const clock = new ManualClock();
+    const store = new EnhancedVectorStore(DIMENSION, 1000, embeddingProvider, clock);
+    const timersPerStore = clock.pendingTimers;
+    expect(timersPerStore).toBeGreaterThan(1);
+    await store.createNamespace('agent-a');
+    await store.createNamespace('agent-b');
+    expect(clock.pendingTimers).toBe(3 * timersPerStore);
+
+    await store.dropNamespace('agent-a');
+    expect(clock.pendingTimers).toBe(2 * timersPerStore);
+    await store.dispose();
+    expect(clock.pendingTimers).toBe(0);
+  });
+
+  it('should copy a namespace independently of its source', async () => {
+    await vectorStore.addMemory(createMemory(1));
+    await vectorStore.addMemory(createMemory(2));
+    await vectorStore.relateMemories('episodic', 2, 1, 'caused-by');
+    await vectorStore['archiveMemory'](await vectorStore['getMemory']('episodic', 2), 'decayed');
+
+    const copy = await vectorStore.copyNamespace('default', 'snapshot');
+    await vectorStore.deleteMemory('episodic', 1);
+
+    expect(await activeIds(copy)).toEqual([1]);
+    expect(copy.listArchived('episodic').map(a => a.memory.id)).toEqual([2]);
+    const neighbors = await copy.getNeighbors('episodic', 1, { relations: ['caused-by'] });
+    expect(neighbors.map(n => n.memory.id)).toEqual([2]);
+    await expect(vectorStore.copyNamespace('default', 'snapshot')).rejects.toThrow('already exists');
+  });
+
+  it('should persist namespaces through their own logs and checkpoints', async () => {
+    await vectorStore.open(storePath, { fsync: false });
+    const agent = await vectorStore.createNamespace('agent');
+    await agent.addMemory(createMemory(1));
+    await vectorStore.checkpoint();
+    await agent.addMemory(createMemory(2));
+    await vectorStore.createNamespace('late');
+    await vectorStore.copyNamespace('agent', 'copy');
+
+    const recovered = await reopen();
+    expect(recovered.listNamespaces()).toEqual(['default', 'agent', 'copy', 'late']);
+    expect(await activeIds(recovered.namespace('agent'))).toEqual([1, 2]);
+    expect(await activeIds(recovered.namespace('copy'))).toEqual([1, 2]);
+    expect(await activeIds(recovered)).toEqual([]);
+    await recovered.dispose();
+  });
+
+  it('should remove the files of dropped namespaces', async () => {
+    await vectorStore.open(storePath, { fsync: false });
+    const agent = await vectorStore.createNamespace('agent');
+    await agent.addMemory(createMemory(1));
+    await vectorStore.checkpoint();
+    await vectorStore.dropNamespace('agent');
+
+    const files = fs.readdirSync(path.dirname(storePath));
+    expect(files.filter(f => f.startsWith('store.ns-agent'))).toEqual([]);
+
+    const recovered = await reopen();
+    expect(recovered.listNamespaces()).toEqual(['default']);
+    expect(await activeIds(await recovered.createNamespace('agent'))).toEqual([]);
+    await recovered.dispose();
+  });
+
+  it('should save and load namespaces with an unbound store', async () => {
+    const agent = await vectorStore.createNamespace('agent');
+    await agent.addMemory(createMemory(3));
+    await vectorStore.save(storePath);
+
+    const loaded = new EnhancedVectorStore(DIMENSION, 1000, embeddingProvider);
+    await loaded.load(storePath);
+    expect(await activeIds(loaded.namespace('agent'))).toEqual([3]);
+    await loaded.dispose();
+  });
+});
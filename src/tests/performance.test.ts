@@ -55,11 +55,12 @@ describe('Performance Tests', () => {
       }));
 
       const startTime = performance.now();
-      await Promise.all(memories.map(memory => vectorStore.addMemory(memory)));
+      const report = await vectorStore.addMemories(memories, { batchSize: 256, workerPool });
       const endTime = performance.now();
 
       const timePerMemory = (endTime - startTime) / LARGE_DATASET_SIZE;
       expect(timePerMemory).toBeLessThan(2); // Less than 2ms per memory
+      expect(report.failed).toEqual([]);
       expect(await vectorStore.getStoreTelemetry('episodic')).toHaveProperty('memoryCount', LARGE_DATASET_SIZE); // New: Telemetry check
     });
 
@@ -398,6 +399,7 @@ const mockVectorStore = {
     anomalyEvents: [],
   }),
   addMemory: jest.fn().mockResolvedValue(1),
+  addMemories: jest.fn().mockResolvedValue({ added: [], failed: [] }),
   findSimilar: jest.fn().mockResolvedValue([{ memoryId: 1, similarity: 0.95 }]),
   clusterMemories: jest.fn().mockResolvedValue(undefined),
 };
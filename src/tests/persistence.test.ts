@@ -0,0 +1,273 @@
+// src/tests/persistence.test.ts
+
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { EnhancedVectorStore, EnhancedMemory, MemoryType } from '../lib/vectorStore';
+import { LocalEmbeddingProvider } from '../lib/embeddingProvider';
+import { ManualClock } from '../lib/clock';
+
+jest.useFakeTimers();
+
+describe('EnhancedVectorStore persistence', () => {
+  const DIMENSION = 64;
+  const embeddingProvider = new LocalEmbeddingProvider(DIMENSION);
+  let storePath: string;
+  let vectorStore: EnhancedVectorStore;
+
+  const createMemory = (id: number, type: MemoryType = 'episodic', overrides: Partial<EnhancedMemory> = {}): EnhancedMemory => ({
+    id,
+    type,
+    content: `memory ${id}`,
+    vector: new Float32Array(DIMENSION).map(() => Math.random()),
+    timestamp: Date.now(),
+    strength: 1,
+    emotions: ['joy'],
+    lastAccessed: Date.now(),
+    accessCount: 0,
+    decayRate: 0.01,
+    importance: 0.5,
+    predictedRelevance: 0,
+    aiGeneratedTags: [],
+    semanticContext: [],
+    ...overrides,
+  });
+
+  const reopen = async () => {
+    const store = new EnhancedVectorStore(DIMENSION, 1000, embeddingProvider);
+    await store.open(storePath, { fsync: false });
+    return store;
+  };
+
+  const activeIds = async (store: EnhancedVectorStore) =>
+    (await store['getAllMemories']('episodic')).map(m => m.id).sort((a, b) => a - b);
+
+  beforeEach(() => {
+    storePath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'vector-store-')), 'store');
+    vectorStore = new EnhancedVectorStore(DIMENSION, 1000, embeddingProvider);
+  });
+
+  it('should replay bulk ingests logged as one entry per chunk', async () => {
+    await vectorStore.open(storePath, { fsync: false });
+    await vectorStore.addMemories([1, 2, 3].map(id => createMemory(id)), { batchSize: 2 });
+
+    const log = fs.readFileSync(`${storePath}_wal`, 'utf8').trim().split('\n');
+    expect(log.map(line => JSON.parse(line).op)).toEqual(['add-batch', 'add-batch']);
+
+    const recovered = await reopen();
+    expect(await activeIds(recovered)).toEqual([1, 2, 3]);
+  });
+
+  it('should replay mutations logged after the last checkpoint', async () => {
+    await vectorStore.open(storePath, { fsync: false });
+    await vectorStore.addMemory(createMemory(1));
+    await vectorStore.checkpoint();
+    await vectorStore.addMemory(createMemory(2));
+    await vectorStore.updateMemory('episodic', 1, { content: 'edited after checkpoint' });
+    await vectorStore.deleteMemory('episodic', 2);
+
+    const recovered = await reopen();
+    expect(await activeIds(recovered)).toEqual([1]);
+    expect((await recovered['getMemory']('episodic', 1)).content).toBe('edited after checkpoint');
+  });
+
+  it('should replay archive and restore', async () => {
+    await vectorStore.open(storePath, { fsync: false });
+    await vectorStore.addMemory(createMemory(1));
+    await vectorStore.addMemory(createMemory(2));
+    await vectorStore['archiveMemory'](await vectorStore['getMemory']('episodic', 1), 'decayed');
+    await vectorStore['archiveMemory'](await vectorStore['getMemory']('episodic', 2), 'decayed');
+    await vectorStore.restoreMemory('episodic', 2);
+
+    const recovered = await reopen();
+    expect(await activeIds(recovered)).toEqual([2]);
+    expect(recovered.listArchived('episodic').map(a => a.memory.id)).toEqual([1]);
+  });
+
+  it('should persist merge history through the log and checkpoints', async () => {
+    const vector = new Float32Array(DIMENSION).fill(0.6);
+    await vectorStore.open(storePath, { fsync: false });
+    for (const id of [1, 2, 3]) await vectorStore.addMemory(createMemory(id, 'episodic', { vector }));
+    await vectorStore['mergeMemoryGroup']([1, 2].map(id => vectorStore['records'].get('episodic')!.get(id)!));
+    await vectorStore.checkpoint();
+    await vectorStore['mergeMemoryGroup']([1, 3].map(id => vectorStore['records'].get('episodic')!.get(id)!));
+    await vectorStore.unmerge('episodic', 1);
+
+    const recovered = await reopen();
+    expect(await activeIds(recovered)).toEqual([1, 3]);
+    expect(recovered.getMergeHistory('episodic', 1).map(r => r.sources.map(s => s.id))).toEqual([[2]]);
+  });
+
+  describe('Mutations applied during a checkpoint', () => {
+    const vector = new Float32Array(DIMENSION).fill(0.6);
+    const merge = (ids: number[]) =>
+      vectorStore['mergeMemoryGroup'](ids.map(id => vectorStore['records'].get('episodic')!.get(id)!));
+    const mergeSources = (store: EnhancedVectorStore) =>
+      store.getMergeHistory('episodic', 1).map(r => r.sources.map(s => s.id));
+
+    // Checkpoints, then restores the log and moves the checkpoint back so its last `count` entries replay
+    // over a snapshot that already contains them, as when they land while the checkpoint is written
+    const checkpointOverlapping = async (count: number) => {
+      const log = fs.readFileSync(`${storePath}_wal`, 'utf-8');
+      await vectorStore.checkpoint();
+      const checkpoint = JSON.parse(fs.readFileSync(`${storePath}_checkpoint`, 'utf-8'));
+      fs.writeFileSync(`${storePath}_checkpoint`, JSON.stringify({ ...checkpoint, sequence: checkpoint.sequence - count }));
+      fs.writeFileSync(`${storePath}_wal`, log);
+    };
+
+    beforeEach(async () => {
+      await vectorStore.open(storePath, { fsync: false });
+      for (const id of [1, 2, 3]) await vectorStore.addMemory(createMemory(id, 'episodic', { vector }));
+      await merge([1, 2]);
+      await merge([1, 3]);
+    });
+
+    it('should not record a replayed merge twice', async () => {
+      await checkpointOverlapping(1);
+
+      const recovered = await reopen();
+      expect(await activeIds(recovered)).toEqual([1]);
+      expect(mergeSources(recovered)).toEqual([[2], [3]]);
+    });
+
+    it('should not undo an earlier merge when replaying an unmerge', async () => {
+      await vectorStore.unmerge('episodic', 1);
+      await checkpointOverlapping(1);
+
+      const recovered = await reopen();
+      expect(await activeIds(recovered)).toEqual([1, 3]);
+      expect(mergeSources(recovered)).toEqual([[2]]);
+    });
+  });
+
+  it('should leave the store unchanged when a mutation cannot be logged', async () => {
+    await vectorStore.open(storePath, { fsync: false });
+    await vectorStore.addMemory(createMemory(1));
+
+    const append = jest.spyOn(vectorStore['wal']!, 'append').mockRejectedValue(new Error('Disk full'));
+    await expect(vectorStore.addMemory(createMemory(2))).rejects.toThrow('Disk full');
+    await expect(vectorStore.updateMemory('episodic', 1, { content: 'edited' })).rejects.toThrow('Disk full');
+    await expect(vectorStore.deleteMemory('episodic', 1)).rejects.toThrow('Disk full');
+    append.mockRestore();
+
+    expect(await activeIds(vectorStore)).toEqual([1]);
+    expect((await vectorStore['getMemory']('episodic', 1)).content).toBe('memory 1');
+    expect(await activeIds(await reopen())).toEqual([1]);
+  });
+
+  it('should recover a log written before the first checkpoint and ignore a torn final entry', async () => {
+    await vectorStore.open(storePath, { fsync: false });
+    await vectorStore.addMemory(createMemory(1));
+    fs.appendFileSync(`${storePath}_wal`, '{"seq":2,"op":"add","da');
+
+    expect(await activeIds(await reopen())).toEqual([1]);
+  });
+
+  it('should checkpoint automatically and truncate the log', async () => {
+    await vectorStore.open(storePath, { fsync: false, checkpointInterval: 2 });
+    await vectorStore.addMemory(createMemory(1));
+    await vectorStore.addMemory(createMemory(2));
+
+    expect(fs.readFileSync(`${storePath}_wal`, 'utf-8')).toBe('');
+    expect(JSON.parse(fs.readFileSync(`${storePath}_checkpoint`, 'utf-8')).sequence).toBe(2);
+    expect(await activeIds(await reopen())).toEqual([1, 2]);
+  });
+
+  it('should keep the previous checkpoint when a save fails midway', async () => {
+    await vectorStore.open(storePath, { fsync: false });
+    await vectorStore.addMemory(createMemory(1));
+    await vectorStore.checkpoint();
+    await vectorStore.addMemory(createMemory(2));
+
+    jest.spyOn(vectorStore['archive'], 'save').mockRejectedValueOnce(new Error('Disk full'));
+    await expect(vectorStore.checkpoint()).rejects.toThrow('Disk full');
+
+    expect(await activeIds(await reopen())).toEqual([1, 2]);
+    const checkpoint = JSON.parse(fs.readFileSync(`${storePath}_checkpoint`, 'utf-8'));
+    const snapshots = fs.readdirSync(path.dirname(storePath)).filter(f => f.endsWith('_metadata'));
+    expect(snapshots).toEqual([`store.${checkpoint.generation}_metadata`]);
+  });
+
+  it('should not replay a stale log over a snapshot saved elsewhere', async () => {
+    await vectorStore.open(storePath, { fsync: false });
+    await vectorStore.addMemory(createMemory(1));
+
+    const other = new EnhancedVectorStore(DIMENSION, 1000, embeddingProvider);
+    await other.addMemory(createMemory(5));
+    await other.save(storePath);
+
+    expect(await activeIds(await reopen())).toEqual([5]);
+  });
+
+  it('should restart with a warm query cache', async () => {
+    await vectorStore.addMemory(createMemory(1));
+    const query = new Float32Array(DIMENSION).fill(0.5);
+    const results = await vectorStore.findSimilar(query, 'episodic', 1, 0);
+    await vectorStore.save(storePath);
+
+    const loaded = new EnhancedVectorStore(DIMENSION, 1000, embeddingProvider);
+    await loaded.load(storePath);
+    const searchIndex = jest.spyOn(loaded as any, 'searchIndex');
+    expect(await loaded.findSimilar(query, 'episodic', 1, 0)).toEqual(results);
+    expect(searchIndex).not.toHaveBeenCalled();
+  });
+
+  it('should stamp log entries, checkpoints and manifests with the store clock', async () => {
+    const clock = new ManualClock(Date.UTC(2026, 0, 1));
+    const store = new EnhancedVectorStore(DIMENSION, 1000, embeddingProvider, clock);
+    await store.open(storePath, { fsync: false });
+    await store.addMemory(createMemory(1));
+    expect(JSON.parse(fs.readFileSync(`${storePath}_wal`, 'utf-8')).timestamp).toBe(clock.now());
+
+    clock.set(Date.UTC(2026, 1, 1));
+    await store.checkpoint();
+    const checkpoint = JSON.parse(fs.readFileSync(`${storePath}_checkpoint`, 'utf-8'));
+    expect(checkpoint.createdAt).toBe(clock.now());
+    expect(JSON.parse(fs.readFileSync(`${storePath}.${checkpoint.generation}_manifest`, 'utf-8')).createdAt).toBe(clock.now());
+    await store.dispose();
+  });
+
+  describe('Snapshot manifest', () => {
+    const checkpointPrefix = () =>
+      `${storePath}.${JSON.parse(fs.readFileSync(`${storePath}_checkpoint`, 'utf-8')).generation}`;
+
+    beforeEach(async () => {
+      await vectorStore.addMemory(createMemory(1));
+      await vectorStore.addMemory(createMemory(2, 'semantic'));
+      await vectorStore.save(storePath);
+    });
+
+    it('should describe the snapshot in its manifest', () => {
+      const manifest = JSON.parse(fs.readFileSync(`${checkpointPrefix()}_manifest`, 'utf-8'));
+      expect(manifest.dimension).toBe(DIMENSION);
+      expect(manifest.embeddingModel).toBe(embeddingProvider.modelId);
+      expect(manifest.memoryCounts).toMatchObject({ episodic: 1, semantic: 1 });
+      expect(Object.keys(manifest.files)).toEqual(expect.arrayContaining(['_metadata', '_episodic.hnsw', '_cache', '_graph']));
+    });
+
+    it('should refuse snapshots built with another embedding model', async () => {
+      const other = new EnhancedVectorStore(DIMENSION, 1000, new LocalEmbeddingProvider(DIMENSION, { seed: 1 }));
+      await expect(other.load(storePath)).rejects.toThrow('Embedding model mismatch');
+    });
+
+    it('should refuse snapshots whose files were modified', async () => {
+      fs.appendFileSync(`${checkpointPrefix()}_graph`, ' ');
+      await expect(reopen()).rejects.toThrow('Checksum mismatch');
+    });
+
+    it('should migrate snapshots written before versioning', async () => {
+      const prefix = checkpointPrefix();
+      fs.unlinkSync(`${prefix}_manifest`);
+      for (const suffix of ['_metadata', '_archive', '_graph', '_anomalies']) {
+        const { data } = JSON.parse(fs.readFileSync(`${prefix}${suffix}`, 'utf-8'));
+        if (suffix === '_metadata') delete data.tombstones;
+        fs.writeFileSync(`${prefix}${suffix}`, JSON.stringify(data));
+      }
+
+      const recovered = await reopen();
+      expect(await activeIds(recovered)).toEqual([1]);
+      expect((await recovered['getAllMemories']('semantic')).map(m => m.id)).toEqual([2]);
+    });
+  });
+});
@@ -0,0 +1,205 @@
+// src/tests/quantization.test.ts
+
+import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  HalfPrecisionQuantizer,
+  ProductQuantizer,
+  QuantizationConfig,
+  QuantizedIndex,
+  ScalarQuantizer,
+  normalize,
+} from '../lib/quantization';
+import { EnhancedVectorStore, EnhancedMemory } from '../lib/vectorStore';
+import { LocalEmbeddingProvider } from '../lib/embeddingProvider';
+
+jest.useFakeTimers();
+
+const DIMENSION = 32;
+
+// Deterministic vectors scattered around a few cluster centres, so neighbourhoods are meaningful
+const createVectors = (count: number, seed = 1): Float32Array[] => {
+  let state = seed;
+  const random = () => {
+    state = (state * 1103515245 + 12345) % 2147483648;
+    return state / 2147483648;
+  };
+  const centres = Array.from({ length: 8 }, () => Float32Array.from({ length: DIMENSION }, () => random() * 2 - 1));
+  return Array.from({ length: count }, (_, i) =>
+    centres[i % centres.length].map(v => v + (random() - 0.5) * 0.6)
+  );
+};
+
+const dot = (a: Float32Array, b: Float32Array) => a.reduce((sum, v, i) => sum + v * b[i], 0);
+
+describe('Quantizers', () => {
+  const vectors = createVectors(200).map(normalize);
+
+  it('should round-trip float16 within half precision', () => {
+    const quantizer = new HalfPrecisionQuantizer(DIMENSION);
+    const code = new Uint8Array(quantizer.codeSize);
+    quantizer.encode(vectors[0], code);
+
+    expect(quantizer.codeSize).toBe(DIMENSION * 2);
+    quantizer.decode(code).forEach((v, i) => expect(v).toBeCloseTo(vectors[0][i], 3));
+    expect(quantizer.createScorer(vectors[0])(code)).toBeCloseTo(1, 3);
+  });
+
+  it('should score int8 and pq codes close to the exact inner product', () => {
+    const quantizers = [new ScalarQuantizer(DIMENSION), new ProductQuantizer(DIMENSION, 8, 64, 10)];
+    for (const quantizer of quantizers) {
+      expect(quantizer.trained).toBe(false);
+      quantizer.train(vectors);
+
+      const code = new Uint8Array(quantizer.codeSize);
+      quantizer.encode(vectors[1], code);
+      const score = quantizer.createScorer(vectors[2])(code);
+      expect(Math.abs(score - dot(vectors[1], vectors[2]))).toBeLessThan(0.1);
+      expect(dot(quantizer.decode(code), vectors[1])).toBeGreaterThan(0.9);
+    }
+  });
+
+  it('should reject product quantization settings that do not fit the dimension', () => {
+    expect(() => new ProductQuantizer(DIMENSION, 5, 16, 5)).toThrow('does not divide');
+    expect(() => new ProductQuantizer(DIMENSION, 8, 300, 5)).toThrow('1-256 centroids');
+  });
+});
+
+describe('QuantizedIndex', () => {
+  const vectors = createVectors(300);
+  const config: QuantizationConfig = { method: 'pq', subspaces: 8, centroids: 32, iterations: 8, rerank: 4, trainingSize: 100 };
+  const getVector = (label: number) => vectors[label];
+
+  const exactTop = (query: Float32Array, k: number) =>
+    vectors
+      .map((v, label) => ({ label, score: dot(normalize(v), normalize(query)) }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, k)
+      .map(r => r.label);
+
+  const createIndex = (overrides: Partial<QuantizationConfig> = {}) => {
+    const index = new QuantizedIndex(DIMENSION, { ...config, ...overrides }, getVector);
+    index.initIndex(vectors.length);
+    return index;
+  };
+
+  it('should search exactly until enough vectors arrive to train', () => {
+    const index = createIndex();
+    vectors.slice(0, 50).forEach((v, label) => index.addPoint(Array.from(v), label));
+    expect(index.trained).toBe(false);
+    expect(index.searchKnn(Array.from(vectors[3]), 1).neighbors).toEqual([3]);
+
+    vectors.slice(50).forEach((v, i) => index.addPoint(Array.from(v), i + 50));
+    expect(index.trained).toBe(true);
+    expect(index.getCurrentCount()).toBe(300);
+  });
+
+  it('should re-rank compressed candidates with full-precision vectors', () => {
+    const index = createIndex({ rerank: 20 });
+    vectors.forEach((v, label) => index.addPoint(Array.from(v), label));
+
+    const query = vectors[7];
+    const expected = exactTop(query, 5);
+    const { neighbors, distances } = index.searchKnn(Array.from(query), 5);
+
+    expect(neighbors).toEqual(expected);
+    neighbors.forEach((label, i) => expect(distances[i]).toBeCloseTo(1 - dot(normalize(vectors[label]), normalize(query)), 5));
+    expect(index.searchCompressed(query, 5).map(r => r.label)).toContain(7);
+  });
+
+  it('should skip deleted labels and honour filters', () => {
+    const index = createIndex({ method: 'int8' });
+    vectors.forEach((v, label) => index.addPoint(Array.from(v), label));
+    index.markDelete(7);
+
+    const { neighbors } = index.searchKnn(Array.from(vectors[7]), 10, label => label % 2 === 1);
+    expect(neighbors).not.toContain(7);
+    expect(neighbors.every(label => label % 2 === 1)).toBe(true);
+    expect(() => index.markDelete(1000)).toThrow('Label not found');
+  });
+
+  it('should write and read its codes and codebooks', async () => {
+    const file = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'quantized-')), 'episodic.hnsw');
+    const index = createIndex();
+    vectors.forEach((v, label) => index.addPoint(Array.from(v), label));
+    await index.writeIndex(file);
+
+    const restored = new QuantizedIndex(DIMENSION, config, getVector);
+    await restored.readIndex(file);
+    expect(restored.getCurrentCount()).toBe(300);
+    expect(restored.searchCompressed(vectors[9], 5)).toEqual(index.searchCompressed(vectors[9], 5));
+    expect(restored.memoryUsage()).toEqual(index.memoryUsage());
+  });
+});
+
+describe('EnhancedVectorStore quantization', () => {
+  const embeddingProvider = new LocalEmbeddingProvider(DIMENSION);
+  const vectors = createVectors(120, 7);
+  let vectorStore: EnhancedVectorStore;
+
+  const createMemory = (id: number): EnhancedMemory => ({
+    id,
+    type: 'semantic',
+    content: `memory ${id}`,
+    vector: vectors[id],
+    timestamp: Date.now(),
+    strength: 1,
+    emotions: ['joy'],
+    lastAccessed: Date.now(),
+    accessCount: 0,
+    decayRate: 0.01,
+    importance: 0.5,
+    predictedRelevance: 0,
+    aiGeneratedTags: [],
+    semanticContext: [],
+  });
+
+  beforeEach(async () => {
+    vectorStore = new EnhancedVectorStore(DIMENSION, 1000, embeddingProvider);
+    for (let id = 0; id < vectors.length; id++) await vectorStore.addMemory(createMemory(id));
+  });
+
+  afterEach(async () => {
+    await vectorStore.dispose();
+  });
+
+  it('should search quantized indexes and keep the setting across save and load', async () => {
+    await vectorStore.configureQuantization({ method: 'int8', trainingSize: 50 });
+    expect((await vectorStore.findSimilar(vectors[4], 'semantic', 3, 0))[0]).toMatchObject({ memoryId: 4 });
+
+    await vectorStore.addMemory({ ...createMemory(4), id: 500 });
+    expect((await vectorStore.findSimilar(vectors[4], 'semantic', 2, 0)).map(r => r.memoryId).sort()).toEqual([4, 500]);
+
+    const storePath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'vector-store-')), 'store');
+    await vectorStore.save(storePath);
+    const loaded = new EnhancedVectorStore(DIMENSION, 1000, embeddingProvider);
+    await loaded.load(storePath);
+    expect(loaded.getQuantizationConfig()).toMatchObject({ method: 'int8', trainingSize: 50 });
+    expect((await loaded.findSimilar(vectors[4], 'semantic', 2, 0)).map(r => r.memoryId).sort()).toEqual([4, 500]);
+    await loaded.dispose();
+  });
+
+  it('should report memory saved against recall lost', () => {
+    const report = vectorStore.getQuantizationReport('semantic', {
+      config: { method: 'pq', subspaces: 4, centroids: 16, rerank: 4 },
+      queries: 10,
+      k: 5,
+    });
+
+    expect(report).toMatchObject({ method: 'pq', vectors: 120, queries: 10, k: 5 });
+    expect(report.fullPrecisionBytes).toBe(120 * DIMENSION * 4);
+    expect(report.savedBytes).toBe(report.fullPrecisionBytes - report.quantizedBytes);
+    expect(report.compressionRatio).toBeGreaterThan(1);
+    expect(report.rerankedRecall).toBeGreaterThanOrEqual(report.recall);
+    expect(report.rerankedRecall).toBeGreaterThan(0.8);
+  });
+
+  it('should reject unusable configurations', async () => {
+    expect(() => vectorStore.getQuantizationReport('semantic')).toThrow('No quantization configured');
+    await expect(vectorStore.configureQuantization({ method: 'pq', subspaces: 5 })).rejects.toThrow('Invalid quantization config');
+    await vectorStore.configureQuantization(null);
+    expect(vectorStore.getQuantizationConfig()).toBeNull();
+  });
+});
@@ -0,0 +1,101 @@
+// src/tests/snapshotFormat.test.ts
+
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  MigrationRegistry,
+  SnapshotFormatError,
+  SNAPSHOT_FORMAT_VERSION,
+  decodeVersioned,
+  encodeVersioned,
+  readManifest,
+  readVersionedIfPresent,
+  verifyManifest,
+  writeManifest,
+} from '../lib/snapshotFormat';
+
+describe('snapshotFormat', () => {
+  describe('MigrationRegistry', () => {
+    let registry: MigrationRegistry;
+
+    beforeEach(() => {
+      registry = new MigrationRegistry()
+        .register('graph', 0, data => ({ edges: data }))
+        .register('graph', 1, data => ({ ...data, directed: true }));
+    });
+
+    it('should upgrade unversioned files through every migration', () => {
+      const data = decodeVersioned('graph', JSON.stringify([{ source: 1, target: 2 }]), registry);
+      expect(data).toEqual({ edges: [{ source: 1, target: 2 }], directed: true });
+    });
+
+    it('should round-trip current files without migrating', () => {
+      const encoded = encodeVersioned('graph', { edges: [], directed: false }, registry);
+      expect(JSON.parse(encoded).version).toBe(2);
+      expect(decodeVersioned('graph', encoded, registry)).toEqual({ edges: [], directed: false });
+    });
+
+    it('should refuse newer versions and other components', () => {
+      const newer = JSON.stringify({ format: 'graph', version: 3, data: {} });
+      expect(() => decodeVersioned('graph', newer, registry)).toThrow('this release reads up to version 2');
+
+      const archive = JSON.stringify({ format: 'archive', version: 1, data: [] });
+      expect(() => decodeVersioned('graph', archive, registry)).toThrow(SnapshotFormatError);
+    });
+  });
+
+  it('should upgrade legacy partitioner centroids and members', () => {
+    const legacy = JSON.stringify({
+      partitions: [['p1', { centroid: { 0: 0.5, 1: 0.25 }, members: {} }]],
+      dimensionality: 2,
+    });
+    const [[, partition]] = decodeVersioned('partitioner', legacy).partitions;
+    expect(partition.centroid).toEqual([0.5, 0.25]);
+    expect(partition.members).toEqual([]);
+  });
+
+  it('should read missing component files as null and still reject unreadable ones', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'snapshot-format-'));
+    expect(await readVersionedIfPresent(path.join(dir, 'store_graph'), 'graph')).toBeNull();
+
+    fs.writeFileSync(path.join(dir, 'store_archive'), '{not json');
+    await expect(readVersionedIfPresent(path.join(dir, 'store_archive'), 'archive')).rejects.toThrow();
+  });
+
+  describe('manifest', () => {
+    let prefix: string;
+
+    beforeEach(() => {
+      prefix = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'snapshot-')), 'store');
+      fs.writeFileSync(`${prefix}_metadata`, '{"records":[]}');
+    });
+
+    it('should record checksums of the files that exist', async () => {
+      await writeManifest(prefix, ['_metadata', '_graph'], { dimension: 8, embeddingModel: 'test', memoryCounts: {} });
+
+      const manifest = (await readManifest(prefix))!;
+      expect(manifest.formatVersion).toBe(SNAPSHOT_FORMAT_VERSION);
+      expect(Object.keys(manifest.files)).toEqual(['_metadata']);
+      await expect(verifyManifest(prefix, manifest)).resolves.toBeUndefined();
+    });
+
+    it('should detect modified and missing files', async () => {
+      const manifest = await writeManifest(prefix, ['_metadata'], { dimension: 8, embeddingModel: 'test', memoryCounts: {} });
+
+      fs.writeFileSync(`${prefix}_metadata`, '{"records":[1]}');
+      await expect(verifyManifest(prefix, manifest)).rejects.toThrow('Checksum mismatch');
+
+      fs.unlinkSync(`${prefix}_metadata`);
+      await expect(verifyManifest(prefix, manifest)).rejects.toThrow('is missing');
+    });
+
+    it('should treat a missing manifest as a legacy snapshot and refuse newer formats', async () => {
+      expect(await readManifest(prefix)).toBeNull();
+
+      fs.writeFileSync(`${prefix}_manifest`, JSON.stringify({ formatVersion: SNAPSHOT_FORMAT_VERSION + 1, files: {} }));
+      await expect(readManifest(prefix)).rejects.toThrow('newer than supported');
+    });
+  });
+});
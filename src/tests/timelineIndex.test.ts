@@ -0,0 +1,50 @@
+// src/tests/timelineIndex.test.ts
+
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import { TimelineIndex } from '../lib/timelineIndex';
+
+describe('TimelineIndex', () => {
+  let timeline: TimelineIndex;
+
+  beforeEach(() => {
+    timeline = new TimelineIndex();
+    timeline.add(1, 100);
+    timeline.add(2, 300);
+    timeline.add(3, 200);
+  });
+
+  it('should find the latest entry at or before a time', () => {
+    expect(timeline.latestBefore(250)).toBe(3);
+    expect(timeline.latestBefore(300)).toBe(2);
+    expect(timeline.latestBefore(50)).toBeNull();
+  });
+
+  it('should skip the excluded id and respect the earliest bound', () => {
+    expect(timeline.latestBefore(300, 0, 2)).toBe(3);
+    expect(timeline.latestBefore(300, 250, 2)).toBeNull();
+  });
+
+  it('should move re-added entries and forget removed ones', () => {
+    timeline.add(1, 400);
+    expect(timeline.latestBefore(150)).toBeNull();
+    expect(timeline.latestBefore(500)).toBe(1);
+
+    expect(timeline.remove(1)).toBe(true);
+    expect(timeline.remove(1)).toBe(false);
+    expect(timeline.latestBefore(500)).toBe(2);
+    expect(timeline.size).toBe(2);
+  });
+
+  it('should stay ordered across many chunks inserted out of order', () => {
+    const large = new TimelineIndex();
+    const ids = Array.from({ length: 5000 }, (_, i) => i);
+    for (const i of ids) large.add((i * 7919) % ids.length, ((i * 7919) % ids.length) * 10); // Every id once, scattered
+    for (const id of ids.filter(id => id % 3 === 0)) large.remove(id);
+
+    for (const id of [1, 1000, 2500, 4999]) {
+      const expected = ids.filter(other => other % 3 !== 0 && other * 10 <= id * 10 + 5).pop();
+      expect(large.latestBefore(id * 10 + 5)).toBe(expected);
+    }
+    expect(large.size).toBe(ids.filter(id => id % 3 !== 0).length);
+  });
+});
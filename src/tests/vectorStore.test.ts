@@ -1,8 +1,15 @@
 // src/tests/vectorStore.test.ts
 
 import { describe, it, expect, beforeEach, jest } from '@jest/globals';
-import { EnhancedVectorStore } from '../lib/vectorStore';
-import { MemoryType } from '../types';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { EnhancedVectorStore, EnhancedMemory, MemoryType, StoreEvents } from '../lib/vectorStore';
+import type { EventHandler } from '../lib/eventBus';
+import { LocalEmbeddingProvider } from '../lib/embeddingProvider';
+import { ManualClock } from '../lib/clock';
+import type { WorkerPool } from '../lib/workerPool';
+import { clusterTag, memoryTag, typeTag } from '../lib/optimizations/memoryCacheManager';
 
 jest.useFakeTimers();
 
@@ -11,9 +18,8 @@ describe('EnhancedVectorStore', () => {
   const mockConfig = {
     dimension: 768,
     maxElements: 5000, // Increased for larger tests
-    embeddingEndpoint: 'mock-endpoint',
-    apiKey: 'mock-key',
   };
+  const embeddingProvider = new LocalEmbeddingProvider(mockConfig.dimension);
 
   const createMockMemory = (id: number, type: MemoryType = 'episodic', overrides: Partial<EnhancedMemory> = {}): EnhancedMemory => ({
     id,
@@ -38,8 +44,7 @@ describe('EnhancedVectorStore', () => {
     vectorStore = new EnhancedVectorStore(
       mockConfig.dimension,
       mockConfig.maxElements,
-      mockConfig.embeddingEndpoint,
-      mockConfig.apiKey
+      embeddingProvider
     );
     jest.clearAllMocks();
   });
@@ -54,21 +59,68 @@ describe('EnhancedVectorStore', () => {
       expect(mockMemory.neuralWeights).toBeDefined(); // New: Neural weights check
     });
 
+    it('should construct and index memories with the default configuration', async () => {
+      const store = new EnhancedVectorStore();
+      await store.addMemory(createMockMemory(1, 'semantic', { vector: new Float32Array(0) }));
+
+      const stored = await store['getMemory']('semantic', 1);
+      expect(stored.vector).toHaveLength(768);
+      expect(stored.decayRate).toBe(0.05);
+      expect((await store.findSimilar('memory 1', 'semantic', 1))[0].memoryId).toBe(1);
+      await store.dispose();
+    });
+
     it('should retrieve similar memories with neural weighting', async () => {
+      // predictedRelevance is recomputed on insert and preset weights are kept as learned state, so the
+      // ranking is driven by the weights: both vectors point the same way and tie on raw similarity
+      const query = new Float32Array(mockConfig.dimension).fill(0.15);
+      const features: Float32Array = vectorStore['projectToNeuralLayer'](query);
       const mockMemories = [
-        createMockMemory(1, 'episodic', { vector: new Float32Array(mockConfig.dimension).fill(0.1), predictedRelevance: 0.9 }),
-        createMockMemory(2, 'episodic', { vector: new Float32Array(mockConfig.dimension).fill(0.2), predictedRelevance: 0.7 }),
+        createMockMemory(1, 'episodic', { vector: new Float32Array(mockConfig.dimension).fill(0.1), neuralWeights: features.map(v => v) }),
+        createMockMemory(2, 'episodic', { vector: new Float32Array(mockConfig.dimension).fill(0.2), neuralWeights: features.map(v => -v) }),
       ];
 
       await Promise.all(mockMemories.map(memory => vectorStore.addMemory(memory)));
-      const query = new Float32Array(mockConfig.dimension).fill(0.15);
       const results = await vectorStore.findSimilar(query, 'episodic', 2);
 
       expect(results).toHaveLength(2);
-      expect(results[0].memoryId).toBe(1); // Neural weighting prioritizes higher relevance
+      expect(results[0].memoryId).toBe(1); // Learned weights aligned with the query boost it
       expect(results[0].similarity).toBeGreaterThan(results[1].similarity);
     });
 
+    it('should return stored records for added memories', async () => {
+      const memory = createMockMemory(7, 'semantic', { content: 'stored record' });
+      await vectorStore.addMemory(memory);
+
+      const stored = await vectorStore['getMemory']('semantic', 7);
+      expect(stored.content).toBe('stored record');
+      expect(await vectorStore['getAllMemories']('semantic')).toHaveLength(1);
+      expect(await vectorStore['getAllMemories']('episodic')).toHaveLength(0);
+    });
+
+    it('should keep a separate index per memory type', async () => {
+      const vector = new Float32Array(mockConfig.dimension).fill(0.3);
+      await vectorStore.addMemory(createMockMemory(1, 'episodic', { vector }));
+      await vectorStore.addMemory(createMockMemory(1, 'procedural', { vector }));
+
+      const results = await vectorStore.findSimilar(vector, 'procedural', 5);
+      expect(results).toHaveLength(1);
+      expect((await vectorStore['getMemory']('procedural', results[0].memoryId)).type).toBe('procedural');
+    });
+
+    it('should embed memories without vectors and answer text queries', async () => {
+      await vectorStore.addMemory({ ...createMockMemory(1), vector: new Float32Array(0), content: 'deployed the billing service' });
+      await vectorStore.addMemory({ ...createMockMemory(2), vector: new Float32Array(0), content: 'walked the dog in the park' });
+
+      const results = await vectorStore.findSimilar('billing service deployment', 'episodic', 1, 0);
+      expect(results[0].memoryId).toBe(1);
+    });
+
+    it('should reject embedding providers with a different dimension', () => {
+      expect(() => new EnhancedVectorStore(mockConfig.dimension, mockConfig.maxElements, new LocalEmbeddingProvider(64)))
+        .toThrow('store expects 768');
+    });
+
     it('should handle empty memory gracefully', async () => {
       const emptyMemory = { ...createMockMemory(3), vector: new Float32Array(0), content: '' };
       const vectorId = await vectorStore.addMemory(emptyMemory);
@@ -76,6 +128,102 @@ describe('EnhancedVectorStore', () => {
     });
   });
 
+  describe('Filtered Search', () => {
+    const DAY = 24 * 60 * 60 * 1000;
+    const query = new Float32Array(mockConfig.dimension).fill(0.5);
+
+    beforeEach(async () => {
+      // 40 near-identical memories; only ids divisible by 10 are recent frustration memories
+      for (let i = 0; i < 40; i++) {
+        await vectorStore.addMemory(createMockMemory(i, 'episodic', {
+          vector: new Float32Array(mockConfig.dimension).fill(0.5 + i * 0.001),
+          timestamp: i % 10 === 0 ? Date.now() - DAY : Date.now() - 30 * DAY,
+          emotions: i % 10 === 0 ? ['frustration'] : ['joy'],
+          strength: i === 30 ? 0.2 : 0.9,
+        }));
+      }
+    });
+
+    it('should return k results that all satisfy selective filters', async () => {
+      const results = await vectorStore.findSimilar(query, 'episodic', 3, 0, {
+        timeRange: { start: Date.now() - 3 * DAY },
+        emotions: ['frustration'],
+        strength: { min: 0.4 },
+      });
+
+      expect(results.map(r => r.memoryId).sort((a, b) => a - b)).toEqual([0, 10, 20]);
+    });
+
+    it('should return fewer than k results only when fewer memories match', async () => {
+      const results = await vectorStore.findSimilar(query, 'episodic', 10, 0, { emotions: ['frustration'] });
+      expect(results).toHaveLength(4);
+    });
+
+    it('should filter by cluster membership', async () => {
+      await vectorStore.clusterMemories('episodic', 1);
+      const [cluster] = await vectorStore.getAllClusters('episodic');
+
+      const inCluster = await vectorStore.findSimilar(query, 'episodic', 5, 0, { clusterId: cluster.id });
+      const unknownCluster = await vectorStore.findSimilar(query, 'episodic', 5, 0, { clusterId: 999 });
+      expect(inCluster).toHaveLength(5);
+      expect(unknownCluster).toHaveLength(0);
+    });
+  });
+
+  describe('Hybrid Search', () => {
+    beforeEach(async () => {
+      await vectorStore.addMemory({ ...createMockMemory(1), vector: new Float32Array(0), content: 'paged about incident INC-4821 in checkout' });
+      await vectorStore.addMemory({ ...createMockMemory(2), vector: new Float32Array(0), content: 'checkout latency incident resolved' });
+      await vectorStore.addMemory({ ...createMockMemory(3), vector: new Float32Array(0), content: 'team lunch at the noodle place' });
+    });
+
+    it('should surface exact identifiers through the lexical index', async () => {
+      const results = await vectorStore.hybridSearch('INC-4821', 'episodic', 1);
+      expect(results[0].memoryId).toBe(1);
+      expect(results[0].lexicalScore).toBeGreaterThan(0);
+    });
+
+    it('should fuse scores with weighted fusion', async () => {
+      const results = await vectorStore.hybridSearch('checkout incident', 'episodic', 3, { fusion: 'weighted', vectorWeight: 0.3 });
+      expect(results.map(r => r.memoryId).slice(0, 2).sort()).toEqual([1, 2]);
+      expect(results[0].score).toBeLessThanOrEqual(1);
+    });
+
+    it('should drop archived memories from lexical results', async () => {
+      await vectorStore['archiveMemory'](await vectorStore['getMemory']('episodic', 1), 'decayed');
+      const results = await vectorStore.hybridSearch('INC-4821', 'episodic', 3);
+      expect(results.find(r => r.memoryId === 1)).toBeUndefined();
+    });
+  });
+
+  describe('Neural Weights', () => {
+    it('should initialise identical weights for the same memory across stores', async () => {
+      const vector = new Float32Array(mockConfig.dimension).map((_, i) => Math.sin(i));
+      const otherStore = new EnhancedVectorStore(mockConfig.dimension, mockConfig.maxElements, embeddingProvider);
+
+      const first = createMockMemory(1, 'episodic', { vector, neuralWeights: undefined });
+      const second = createMockMemory(1, 'episodic', { vector: vector.slice(), neuralWeights: undefined });
+      await vectorStore.addMemory(first);
+      await otherStore.addMemory(second);
+
+      expect(Array.from(first.neuralWeights!)).toEqual(Array.from(second.neuralWeights!));
+    });
+
+    it('should rank memories that were used above ignored ones after feedback', async () => {
+      const vector = new Float32Array(mockConfig.dimension).fill(0.2);
+      await vectorStore.addMemory(createMockMemory(1, 'episodic', { vector, neuralWeights: undefined }));
+      await vectorStore.addMemory(createMockMemory(2, 'episodic', { vector: vector.slice(), neuralWeights: undefined }));
+
+      for (let i = 0; i < 5; i++) {
+        await vectorStore.recordRetrievalFeedback('episodic', vector, [1, 2], [2]);
+      }
+
+      const results = await vectorStore.findSimilar(vector, 'episodic', 2);
+      expect(results[0].memoryId).toBe(2);
+      expect((await vectorStore['getMemory']('episodic', 2)).accessCount).toBe(5);
+    });
+  });
+
   describe('Clustering', () => {
     it('should create and manage clusters with telemetry', async () => {
       const memories = Array.from({ length: 20 }, (_, i) => createMockMemory(i));
@@ -128,23 +276,78 @@ describe('EnhancedVectorStore', () => {
       expect(afterClusters.length).toBe(2);
       expect(Math.abs(afterClusters[0].metadata.size - afterClusters[1].metadata.size)).toBeLessThan(5); // Balanced split
     });
+
+    describe('with separated groups', () => {
+      const half = (first: boolean) =>
+        new Float32Array(mockConfig.dimension).map((_, i) => ((i < mockConfig.dimension / 2) === first ? 1 : 0));
+
+      beforeEach(async () => {
+        for (let i = 0; i < 6; i++) {
+          await vectorStore.addMemory(createMockMemory(i, 'episodic', {
+            vector: half(i < 3),
+            emotions: i < 3 ? ['joy'] : ['fear', 'anger'],
+            timestamp: 1000 * (i + 1),
+          }));
+        }
+        await vectorStore.clusterMemories('episodic', 1);
+      });
+
+      it('should split along the separation and report metadata', async () => {
+        const [clusterId] = (await vectorStore.getAllClusters('episodic')).map(c => c.id);
+        const ids = await vectorStore.splitCluster('episodic', clusterId);
+
+        const metadata = await Promise.all(ids.map(id => vectorStore.getClusterMetadata('episodic', id)));
+        expect(metadata.map(m => m.size)).toEqual([3, 3]);
+        expect(metadata[0].dominantEmotions).toEqual(['joy']);
+        expect(metadata[0].timeRange).toEqual({ start: 1000, end: 3000 });
+        expect(metadata[1].dominantEmotions).toEqual(['anger', 'fear']);
+      });
+
+      it('should reassign a memory to the nearest remaining cluster', async () => {
+        const [clusterId] = (await vectorStore.getAllClusters('episodic')).map(c => c.id);
+        const [joyCluster, fearCluster] = await vectorStore.splitCluster('episodic', clusterId);
+
+        expect(await vectorStore.reassignMemory('episodic', 0)).toBe(fearCluster);
+        expect((await vectorStore.getClusterMetadata('episodic', joyCluster)).size).toBe(2);
+        expect((await vectorStore.getClusterMetadata('episodic', fearCluster)).size).toBe(4);
+      });
+
+      it('should derive growth and stability from cluster history', async () => {
+        const [clusterId] = (await vectorStore.getAllClusters('episodic')).map(c => c.id);
+        const [joyCluster, fearCluster] = await vectorStore.splitCluster('episodic', clusterId);
+        await vectorStore.reassignMemory('episodic', 0);
+
+        const dynamics = await vectorStore.getClusterDynamics('episodic');
+        expect(dynamics.growth.find(g => g.clusterId === fearCluster)!.rate).toBeCloseTo(1 / 3);
+        expect(dynamics.growth.find(g => g.clusterId === joyCluster)!.rate).toBeCloseTo(-1 / 3);
+        expect(dynamics.stability.find(s => s.clusterId === joyCluster)!.score).toBeCloseTo(1);
+        expect(dynamics.stability.find(s => s.clusterId === fearCluster)!.score).toBeLessThan(1);
+        expect(dynamics.mergeRecommendations).toHaveLength(0);
+      });
+    });
   });
 
   describe('Memory Decay and Maintenance', () => {
     it('should apply adaptive decay to memories over time', async () => {
+      const DAY = 24 * 60 * 60 * 1000;
       const memory = createMockMemory(1, 'episodic', {
-        timestamp: Date.now() - 7 * 24 * 60 * 60 * 1000, // 7 days old
-        lastAccessed: Date.now() - 7 * 24 * 60 * 60 * 1000,
+        timestamp: Date.now() - DAY,
+        lastAccessed: Date.now() - DAY,
       });
 
       await vectorStore.addMemory(memory);
-      jest.advanceTimersByTime(30 * 24 * 60 * 60 * 1000); // 30 days
+      jest.advanceTimersByTime(2 * DAY);
       await vectorStore['runMaintenance'](); // Trigger maintenance
 
       const clusters = await vectorStore.getAllClusters('episodic');
       const clusterMemories = await vectorStore.getClusterMemories('episodic', clusters[0].id);
       expect(clusterMemories[0].strength).toBeLessThan(1);
       expect(clusterMemories[0].strength).toBeGreaterThan(0.1); // New: Adaptive decay check
+
+      jest.advanceTimersByTime(30 * DAY); // Decays to minStrength and is archived
+      await vectorStore['runMaintenance']();
+      expect(await vectorStore['getAllMemories']('episodic')).toHaveLength(0);
+      expect(vectorStore.listArchived('episodic')[0].reason).toBe('decayed');
     });
 
     it('should consolidate similar memories efficiently', async () => {
@@ -163,13 +366,558 @@ describe('EnhancedVectorStore', () => {
     });
 
     it('should detect anomalies during maintenance', async () => {
+      const clock = new ManualClock(Date.now());
+      vectorStore = new EnhancedVectorStore(mockConfig.dimension, mockConfig.maxElements, embeddingProvider, clock);
       const memory = createMockMemory(1, 'episodic', { strength: 0.05 }); // Low strength anomaly
       await vectorStore.addMemory(memory);
-      await vectorStore['runMaintenance']();
+
+      // Triggers are checked on each scheduled tick, not by a forced run
+      const anomaly = new Promise<StoreEvents['anomaly']>(resolve => vectorStore.once('anomaly', resolve));
+      clock.advance(vectorStore.maintenance.interval);
+      await anomaly;
+      await vectorStore.maintenance.runNow();
 
       const telemetry = await vectorStore.getStoreTelemetry('episodic');
       expect(telemetry.anomalyEvents.length).toBeGreaterThan(0);
-      expect(telemetry.anomalyEvents[0].type).toBe('strength_drop');
+      expect(telemetry.anomalyEvents[0].type).toBe('low_strength');
+    });
+  });
+
+  describe('Archive', () => {
+    const decayedMemory = (id: number) => createMockMemory(id, 'episodic', {
+      vector: new Float32Array(mockConfig.dimension).fill(0.4),
+      strength: 0,
+      lastAccessed: Date.now() - 365 * 24 * 60 * 60 * 1000,
+    });
+
+    it('should move decayed memories out of the active index', async () => {
+      await vectorStore.addMemory(decayedMemory(1));
+      await vectorStore['applyMemoryDecay']();
+
+      expect(await vectorStore['getAllMemories']('episodic')).toHaveLength(0);
+      expect(vectorStore.listArchived('episodic')).toHaveLength(1);
+      expect(vectorStore.listArchived('episodic')[0].reason).toBe('decayed');
+
+      const query = new Float32Array(mockConfig.dimension).fill(0.4);
+      expect(await vectorStore.findSimilar(query, 'episodic', 5)).toHaveLength(0);
+      const archived = await vectorStore.searchArchive(query, 'episodic', 5);
+      expect(archived[0].memoryId).toBe(1);
+    });
+
+    it('should restore archived memories into the active index', async () => {
+      await vectorStore.addMemory(decayedMemory(1));
+      await vectorStore['applyMemoryDecay']();
+
+      const restored = await vectorStore.restoreMemory('episodic', 1);
+      expect(restored.strength).toBeGreaterThan(0);
+      expect(vectorStore.listArchived('episodic')).toHaveLength(0);
+
+      const query = new Float32Array(mockConfig.dimension).fill(0.4);
+      const results = await vectorStore.findSimilar(query, 'episodic', 5);
+      expect(results[0].memoryId).toBe(1);
+    });
+
+    it('should reject restoring memories that are not archived', async () => {
+      await expect(vectorStore.restoreMemory('episodic', 42)).rejects.toThrow('not archived');
+    });
+  });
+
+  describe('Decay Models', () => {
+    const staleMemory = (id: number, type: MemoryType) => createMockMemory(id, type, {
+      strength: 1,
+      importance: 1,
+      lastAccessed: Date.now() - 2 * 24 * 60 * 60 * 1000,
+    });
+
+    it('should select the decay model per memory type', async () => {
+      vectorStore.configureDecay({ model: 'exponential', models: { semantic: 'spaced-repetition' } });
+      expect(vectorStore.getDecayModel('episodic').name).toBe('exponential');
+      expect(vectorStore.getDecayModel('semantic').name).toBe('spaced-repetition');
+
+      await vectorStore.addMemory(staleMemory(1, 'episodic'));
+      await vectorStore.addMemory(staleMemory(2, 'semantic'));
+      await vectorStore['applyMemoryDecay']();
+
+      const [episodic] = await vectorStore['getAllMemories']('episodic');
+      const [semantic] = await vectorStore['getAllMemories']('semantic');
+      expect(episodic.strength).toBeLessThan(1);
+      expect(semantic.strength).toBeCloseTo(0.81);
+    });
+
+    it('should not decay the same interval twice', async () => {
+      vectorStore.configureDecay({ model: 'exponential' });
+      await vectorStore.addMemory(staleMemory(1, 'episodic'));
+
+      await vectorStore['applyMemoryDecay']();
+      const [memory] = await vectorStore['getAllMemories']('episodic');
+      const strength = memory.strength;
+      await vectorStore['applyMemoryDecay']();
+
+      expect(memory.strength).toBeCloseTo(strength, 6);
+    });
+
+    it('should accept custom models and reject unknown ones', async () => {
+      vectorStore.registerDecayModel({ name: 'frozen', decay: memory => memory.strength });
+      vectorStore.configureDecay({ models: { procedural: 'frozen' } });
+      expect(vectorStore.getDecayModel('procedural').name).toBe('frozen');
+
+      expect(() => vectorStore.configureDecay({ model: 'unknown' })).toThrow('Unknown decay model: unknown');
+      expect(vectorStore.getDecayModel('episodic').name).toBe('linear');
+    });
+
+    describe('simulateDecay', () => {
+      const DAY = 24 * 60 * 60 * 1000;
+
+      beforeEach(async () => {
+        vectorStore.configureDecay({ model: 'exponential' });
+        await vectorStore.addMemory(createMockMemory(1));
+        await vectorStore.updateMemory('episodic', 1, { strength: 1, importance: 1, decayRate: 0.05 });
+      });
+
+      it('should project strength without changing the stored memory', async () => {
+        const [projection] = await vectorStore.simulateDecay('episodic', [1], 30 * DAY);
+
+        expect(projection.model).toBe('exponential');
+        expect(projection.curve[0].strength).toBe(1);
+        const strengths = projection.curve.map(p => p.strength);
+        expect(strengths).toEqual([...strengths].sort((a, b) => b - a));
+        expect(projection.curve[projection.curve.length - 1].time).toBe(Date.now() + 30 * DAY);
+
+        const [memory] = await vectorStore['getAllMemories']('episodic');
+        expect(memory.strength).toBe(1);
+        expect(memory.lastDecayed).toBeUndefined();
+      });
+
+      it('should predict when memories reach minStrength and are archived', async () => {
+        const [projection] = await vectorStore.simulateDecay('episodic', [1], 365 * DAY);
+
+        expect(projection.archiveAt).not.toBeNull();
+        expect(projection.curve[projection.curve.length - 1]).toEqual({
+          time: projection.archiveAt,
+          strength: expect.any(Number),
+        });
+        expect((await vectorStore.simulateDecay('episodic', [1], DAY))[0].archiveAt).toBeNull();
+      });
+
+      it('should slow decay for memories accessed in the scenario', async () => {
+        const [idle] = await vectorStore.simulateDecay('episodic', [1], 60 * DAY);
+        const [reviewed] = await vectorStore.simulateDecay('episodic', [1], 60 * DAY, { accessInterval: 5 * DAY });
+
+        const finalStrength = (p: typeof idle) => p.curve[p.curve.length - 1].strength;
+        expect(finalStrength(reviewed)).toBeGreaterThan(finalStrength(idle));
+      });
+
+      it('should simulate every member of a cluster', async () => {
+        await vectorStore.addMemory(createMockMemory(2));
+        await vectorStore.clusterMemories('episodic', 1);
+        const [cluster] = await vectorStore.getAllClusters('episodic');
+
+        const projections = await vectorStore.simulateDecay('episodic', cluster.id, 7 * DAY);
+        expect(projections.map(p => p.memoryId).sort()).toEqual([1, 2]);
+        await expect(vectorStore.simulateDecay('episodic', 999, DAY)).rejects.toThrow('Invalid cluster ID');
+      });
+
+      it('should reject horizons, resolutions and access intervals that are not positive', async () => {
+        await expect(vectorStore.simulateDecay('episodic', [1], 0)).rejects.toThrow('Invalid horizon');
+        await expect(vectorStore.simulateDecay('episodic', [1], Infinity)).rejects.toThrow('Invalid horizon');
+        await expect(vectorStore.simulateDecay('episodic', [1], DAY, {}, 0)).rejects.toThrow('Invalid resolution');
+        await expect(vectorStore.simulateDecay('episodic', [1], DAY, { accessInterval: -DAY })).rejects.toThrow('Invalid accessInterval');
+      });
+
+      it('should match what maintenance does when run at its interval', async () => {
+        vectorStore.configureDecay({ model: 'linear' });
+        const [projection] = await vectorStore.simulateDecay('episodic', [1], 3 * DAY);
+        const [coarse] = await vectorStore.simulateDecay('episodic', [1], 3 * DAY, {}, DAY);
+
+        expect(projection.curve).toHaveLength(Math.ceil(3 * DAY / vectorStore.maintenance.interval) + 1);
+        const last = (p: typeof projection) => p.curve[p.curve.length - 1].strength;
+        expect(last(projection)).toBeCloseTo(last(coarse), 10);
+      });
+    });
+  });
+
+  describe('Simulated Clock', () => {
+    const DAY = 24 * 60 * 60 * 1000;
+    let clock: ManualClock;
+
+    beforeEach(async () => {
+      clock = new ManualClock(Date.UTC(2026, 0, 1));
+      vectorStore = new EnhancedVectorStore(mockConfig.dimension, mockConfig.maxElements, embeddingProvider, clock);
+      vectorStore.configureDecay({ model: 'exponential' });
+      await vectorStore.addMemory(createMockMemory(1, 'episodic', { timestamp: clock.now(), lastAccessed: clock.now() }));
+      await vectorStore.updateMemory('episodic', 1, { strength: 1, importance: 1, decayRate: 0.05 });
+    });
+
+    it('should decay by simulated time rather than wall-clock time', async () => {
+      await vectorStore['applyMemoryDecay']();
+      expect((await vectorStore['getMemory']('episodic', 1)).strength).toBe(1);
+
+      clock.advance(7 * DAY);
+      await vectorStore['applyMemoryDecay']();
+      const memory = await vectorStore['getMemory']('episodic', 1);
+      expect(memory.strength).toBeLessThan(1);
+      expect(memory.lastDecayed).toBe(clock.now());
+    });
+
+    it('should archive memories after months of simulated time', async () => {
+      const start = clock.now();
+      for (let month = 0; month < 6; month++) {
+        clock.advance(30 * DAY);
+        await vectorStore['applyMemoryDecay']();
+      }
+
+      expect(await vectorStore['getAllMemories']('episodic')).toEqual([]);
+      const [entry] = vectorStore.listArchived('episodic');
+      expect(entry.reason).toBe('decayed');
+      expect(entry.archivedAt).toBeGreaterThan(start);
+      expect(entry.archivedAt).toBeLessThanOrEqual(clock.now());
+    });
+  });
+
+  describe('Lifecycle Events', () => {
+    it('should notify subscribers of added memories until they unsubscribe', async () => {
+      const added: number[] = [];
+      const unsubscribe = vectorStore.on('memoryAdded', ({ memory }) => { added.push(memory.id); });
+
+      await vectorStore.addMemory(createMockMemory(1));
+      unsubscribe();
+      await vectorStore.addMemory(createMockMemory(2));
+
+      expect(added).toEqual([1]);
+    });
+
+    it('should report decay, archiving and the completed maintenance run', async () => {
+      const events: string[] = [];
+      vectorStore.on('memoryDecayed', ({ memory, previousStrength }) => {
+        expect(memory.strength).toBeLessThan(previousStrength);
+        events.push('decayed');
+      });
+      vectorStore.on('memoryArchived', ({ reason }) => { events.push(`archived:${reason}`); });
+      const completed = jest.fn<EventHandler<StoreEvents['maintenanceCompleted']>>();
+      vectorStore.on('maintenanceCompleted', completed);
+
+      await vectorStore.addMemory(createMockMemory(1, 'episodic', {
+        strength: 0.2,
+        lastAccessed: Date.now() - 365 * 24 * 60 * 60 * 1000,
+      }));
+      await vectorStore['runMaintenance']();
+
+      expect(events).toEqual(['decayed', 'archived:decayed']);
+      expect(completed).toHaveBeenCalledWith(expect.objectContaining({ decayed: 1, archived: 1, merged: 0 }));
+    });
+
+    it('should report merged memories', async () => {
+      const merged = jest.fn<EventHandler<StoreEvents['memoriesMerged']>>();
+      vectorStore.on('memoriesMerged', merged);
+      const memories = [createMockMemory(1), createMockMemory(2)];
+      for (const memory of memories) await vectorStore.addMemory(memory);
+
+      await vectorStore['mergeMemoryGroup'](memories);
+
+      expect(merged).toHaveBeenCalledWith({ memory: memories[0], mergedIds: [2] });
+    });
+
+    it('should report progress through every maintenance step', async () => {
+      const steps: string[] = [];
+      vectorStore.on('maintenanceProgress', ({ step, status }) => { if (status === 'completed') steps.push(step); });
+
+      await vectorStore.maintenance.runNow();
+
+      expect(steps).toEqual(['decay', 'consolidate', 'predictions', 'indexes', 'decay-rates', 'checkpoint']);
+    });
+
+    it('should never interleave maintenance runs', async () => {
+      const decay = jest.spyOn(vectorStore as any, 'applyMemoryDecay');
+      await Promise.all([vectorStore.maintenance.runNow(), vectorStore['runMaintenance'](), vectorStore.maintenance.runNow()]);
+      expect(decay).toHaveBeenCalledTimes(1);
+    });
+
+    it('should stop scheduled maintenance on dispose', async () => {
+      expect(vectorStore.maintenance.getStatus().scheduled).toBe(true);
+      await vectorStore.dispose();
+      expect(vectorStore.maintenance.getStatus().scheduled).toBe(false);
+      await expect(vectorStore.maintenance.runNow()).rejects.toThrow('disposed');
+    });
+
+    it('should not let a failing subscriber break the store', async () => {
+      jest.spyOn(console, 'error').mockImplementation(() => undefined);
+      vectorStore.on('memoryAdded', () => { throw new Error('subscriber bug'); });
+
+      await expect(vectorStore.addMemory(createMockMemory(1))).resolves.toBeDefined();
+      expect(await vectorStore['getAllMemories']('episodic')).toHaveLength(1);
+    });
+  });
+
+  describe('Update and Delete', () => {
+    it('should re-embed a memory when its content changes', async () => {
+      await vectorStore.addMemory(createMockMemory(1, 'episodic', { content: 'deploy failed on staging', vector: new Float32Array(0) }));
+
+      await vectorStore.updateMemory('episodic', 1, { content: 'quarterly budget review meeting' });
+
+      const results = await vectorStore.findSimilar('quarterly budget review', 'episodic', 1, 0);
+      expect(results[0].memoryId).toBe(1);
+      expect((await vectorStore['getMemory']('episodic', 1)).content).toBe('quarterly budget review meeting');
+    });
+
+    it('should leave a memory untouched when its update is rejected', async () => {
+      const vector = new Float32Array(mockConfig.dimension).fill(0.3);
+      await vectorStore.addMemory(createMockMemory(1, 'episodic', { content: 'original', vector }));
+
+      await expect(
+        vectorStore.updateMemory('episodic', 1, { content: 'edited', vector: new Float32Array(3) })
+      ).rejects.toThrow('Invalid vector dimension');
+
+      const memory = await vectorStore['getMemory']('episodic', 1);
+      expect(memory.content).toBe('original');
+      expect(memory.vector).toHaveLength(mockConfig.dimension);
+      expect((await vectorStore.findSimilar(vector, 'episodic', 1, 0))[0].memoryId).toBe(1);
+    });
+
+    it('should delete memories from search results', async () => {
+      const vector = new Float32Array(mockConfig.dimension).fill(0.3);
+      await vectorStore.addMemory(createMockMemory(1, 'episodic', { vector }));
+      await vectorStore.addMemory(createMockMemory(2, 'episodic', { vector }));
+
+      expect(await vectorStore.deleteMemory('episodic', 1)).toBe(true);
+      expect(await vectorStore.deleteMemory('episodic', 1)).toBe(false);
+
+      const results = await vectorStore.findSimilar(vector, 'episodic', 5);
+      expect(results.map(r => r.memoryId)).toEqual([2]);
+      await expect(vectorStore['getMemory']('episodic', 1)).rejects.toThrow('not found');
+    });
+
+    it('should compact indexes once tombstones exceed the ratio', async () => {
+      for (let i = 0; i < 10; i++) await vectorStore.addMemory(createMockMemory(i));
+      await vectorStore.deleteMemory('episodic', 0);
+
+      expect(await vectorStore.compact(0.5)).toEqual([]);
+
+      for (let i = 1; i < 5; i++) await vectorStore.deleteMemory('episodic', i);
+      expect(await vectorStore.compact(0.5)).toEqual([{ type: 'episodic', removed: 5 }]);
+      expect(vectorStore['getIndex']('episodic').getCurrentCount()).toBe(5);
+
+      const target = await vectorStore['getMemory']('episodic', 7);
+      const results = await vectorStore.findSimilar(target.vector, 'episodic', 1);
+      expect(results[0].memoryId).toBe(7);
+    });
+  });
+
+  describe('Query Cache', () => {
+    const clusterVector = (value: number) => new Float32Array(mockConfig.dimension).map((_, i) => value + (i % 7) * 0.01);
+
+    beforeEach(async () => {
+      for (let i = 1; i <= 5; i++) await vectorStore.addMemory(createMockMemory(i, 'episodic', { vector: clusterVector(0.1 * i) }));
+    });
+
+    it('should answer near-identical queries without searching the index', async () => {
+      const query = clusterVector(0.3);
+      const first = await vectorStore.findSimilar(query, 'episodic', 3, 0);
+      const searchIndex = jest.spyOn(vectorStore as any, 'searchIndex');
+
+      const nearby = query.map((v, i) => (i === 0 ? v + 1e-4 : v));
+      expect(await vectorStore.findSimilar(nearby, 'episodic', 3, 0)).toEqual(first);
+      expect(searchIndex).not.toHaveBeenCalled();
+
+      await vectorStore.findSimilar(query, 'episodic', 2, 0);
+      await vectorStore.findSimilar(new Float32Array(mockConfig.dimension).map((_, i) => (i % 2 ? 1 : -1)), 'episodic', 3, 0);
+      expect(searchIndex).toHaveBeenCalledTimes(2);
+    });
+
+    it('should return memories added after the query was cached', async () => {
+      const query = clusterVector(0.3);
+      await vectorStore.findSimilar(query, 'episodic', 3, 0);
+
+      await vectorStore.addMemory(createMockMemory(6, 'episodic', { vector: query.slice() }));
+      const results = await vectorStore.findSimilar(query, 'episodic', 3, 0);
+      expect(results.map(r => r.memoryId)).toContain(6);
+    });
+
+    it('should drop archived and merged memories from cached results', async () => {
+      const query = clusterVector(0.3);
+      const cached = await vectorStore.findSimilar(query, 'episodic', 5, 0);
+      expect(cached.map(r => r.memoryId)).toContain(3);
+
+      await vectorStore['archiveMemory'](await vectorStore['getMemory']('episodic', 3), 'decayed');
+      expect((await vectorStore.findSimilar(query, 'episodic', 5, 0)).map(r => r.memoryId)).not.toContain(3);
+
+      await vectorStore['mergeMemoryGroup']([
+        await vectorStore['getMemory']('episodic', 2),
+        await vectorStore['getMemory']('episodic', 4)
+      ]);
+      expect((await vectorStore.findSimilar(query, 'episodic', 5, 0)).map(r => r.memoryId)).not.toContain(4);
+    });
+  });
+
+  describe('Cache Invalidation', () => {
+    it('should drop entries tagged with a memory when it changes', async () => {
+      await vectorStore.addMemory(createMockMemory(1));
+      await vectorStore.addMemory(createMockMemory(2));
+      await vectorStore.cache.set('summary:1', 'about memory 1', { tags: [memoryTag('episodic', 1)] });
+      await vectorStore.cache.set('summary:2', 'about memory 2', { tags: [memoryTag('episodic', 2)] });
+
+      await vectorStore.updateMemory('episodic', 1, { content: 'edited' });
+      expect(await vectorStore.cache.get('summary:1')).toBeNull();
+      expect(await vectorStore.cache.get('summary:2')).toBe('about memory 2');
+
+      await vectorStore.deleteMemory('episodic', 2);
+      expect(await vectorStore.cache.get('summary:2')).toBeNull();
+    });
+
+    it('should drop entries tagged with a memory type only when that type changes', async () => {
+      await vectorStore.cache.set('telemetry:semantic', 'semantic stats', { tags: [typeTag('semantic')] });
+      await vectorStore.addMemory(createMockMemory(1, 'episodic'));
+      expect(await vectorStore.cache.get('telemetry:semantic')).toBe('semantic stats');
+
+      await vectorStore.addMemory(createMockMemory(2, 'semantic'));
+      expect(await vectorStore.cache.get('telemetry:semantic')).toBeNull();
+    });
+
+    it('should drop entries tagged with a cluster when clusters merge', async () => {
+      for (let i = 0; i < 10; i++) {
+        await vectorStore.addMemory(createMockMemory(i, 'episodic', { vector: new Float32Array(mockConfig.dimension).fill(i < 5 ? 0.1 : 0.9) }));
+      }
+      await vectorStore.clusterMemories('episodic', 2);
+      const [first, second] = (await vectorStore.getAllClusters('episodic')).map(c => c.id);
+      await vectorStore.cache.set('cluster-view', 'first cluster', { tags: [clusterTag('episodic', first)] });
+
+      await vectorStore.mergeClusters('episodic', first, second);
+      expect(await vectorStore.cache.get('cluster-view')).toBeNull();
+    });
+  });
+
+  describe('Bulk Ingest', () => {
+    it('should embed each chunk in one call and report progress', async () => {
+      const embedBatch = jest.spyOn(embeddingProvider, 'embedBatch');
+      const rebalance = jest.spyOn(vectorStore['partitioner'], 'rebalancePartitions');
+      const progress: number[] = [];
+      const memories = Array.from({ length: 10 }, (_, i) => createMockMemory(i, 'semantic', { vector: new Float32Array(0) }));
+
+      const report = await vectorStore.addMemories(memories, { batchSize: 4, onProgress: p => progress.push(p.processed) });
+
+      expect(report.added).toEqual([0, 1, 2, 3, 4, 5, 6, 7, 8, 9]);
+      expect(report.failed).toEqual([]);
+      expect(embedBatch).toHaveBeenCalledTimes(3);
+      expect(progress).toEqual([4, 8, 10]);
+      expect(rebalance).toHaveBeenCalledTimes(1);
+      expect(memories[3].aiGeneratedTags).toBeDefined();
+      expect((await vectorStore.findSimilar('memory 6', 'semantic', 1, 0))[0].memoryId).toBe(6);
+    });
+
+    it('should skip and report memories that fail', async () => {
+      jest.spyOn(embeddingProvider, 'embedBatch').mockRejectedValueOnce(new Error('Batch too large'));
+      const memories = [
+        createMockMemory(1, 'episodic', { vector: new Float32Array(0) }),
+        createMockMemory(2, 'episodic', { vector: new Float32Array(3) }),
+        createMockMemory(3),
+      ];
+
+      const report = await vectorStore.addMemories(memories);
+
+      expect(report.added).toEqual([1, 3]);
+      expect(report.failed).toEqual([{ id: 2, error: expect.stringContaining('Invalid vector dimension') }]);
+      expect(await vectorStore['getAllMemories']('episodic')).toHaveLength(2);
+    });
+
+    it('should offload analytics to the worker pool and fall back when a task fails', async () => {
+      const executeTask = jest.fn(async (_type: string, data: any) => {
+        if (data.memory.id === 2) throw new Error('Task timeout');
+        return { predictedRelevance: 0.9, aiGeneratedTags: ['from-worker'], semanticContext: [] };
+      });
+      const workerPool = { executeTask } as unknown as WorkerPool;
+      const memories = [createMockMemory(1), createMockMemory(2)];
+
+      const report = await vectorStore.addMemories(memories, { workerPool });
+
+      expect(report.added).toEqual([1, 2]);
+      expect(executeTask).toHaveBeenCalledWith('analyze-memory', expect.objectContaining({ memory: expect.objectContaining({ id: 1 }) }));
+      expect(memories[0]).toMatchObject({ predictedRelevance: 0.9, aiGeneratedTags: ['from-worker'] });
+      expect(memories[1].aiGeneratedTags).not.toContain('from-worker');
+    });
+  });
+
+  describe('Relationship Graph', () => {
+    it('should link new memories to similar and preceding memories', async () => {
+      const vector = new Float32Array(mockConfig.dimension).fill(0.2);
+      const now = Date.now();
+      await vectorStore.addMemory(createMockMemory(1, 'episodic', { vector, timestamp: now - 1000 }));
+      await vectorStore.addMemory(createMockMemory(2, 'episodic', { vector, timestamp: now }));
+
+      const neighbors = await vectorStore.getNeighbors('episodic', 2, { direction: 'out' });
+      expect(neighbors.map(n => n.edge.relation).sort()).toEqual(['follows', 'similar-to']);
+      expect(neighbors.every(n => n.memory.id === 1)).toBe(true);
+    });
+
+    it('should record explicit relations and find paths through them', async () => {
+      for (let i = 1; i <= 3; i++) await vectorStore.addMemory(createMockMemory(i, 'episodic', { timestamp: i }));
+      await vectorStore.relateMemories('episodic', 2, 1, 'caused-by');
+      await vectorStore.relateMemories('episodic', 3, 2, 'contradicts');
+
+      const path = await vectorStore.getPath('episodic', 3, 1, { relations: ['caused-by', 'contradicts'] });
+      expect(path!.map(e => e.relation)).toEqual(['contradicts', 'caused-by']);
+
+      const subgraph = await vectorStore.getSubgraph('episodic', 1, 2, { relations: ['caused-by', 'contradicts'] });
+      expect(subgraph.memories.map(m => m.id).sort()).toEqual([1, 2, 3]);
+
+      await expect(vectorStore.relateMemories('episodic', 1, 42, 'follows')).rejects.toThrow('not found');
+    });
+
+    it('should keep merged-from edges to archived sources', async () => {
+      const vector = new Float32Array(mockConfig.dimension).fill(0.6);
+      await vectorStore.addMemory(createMockMemory(1, 'episodic', { vector }));
+      await vectorStore.addMemory(createMockMemory(2, 'episodic', { vector }));
+
+      await vectorStore['mergeMemoryGroup']([
+        await vectorStore['getMemory']('episodic', 1),
+        await vectorStore['getMemory']('episodic', 2)
+      ]);
+
+      const sources = await vectorStore.getNeighbors('episodic', 1, { relations: ['merged-from'] });
+      expect(sources.map(n => n.memory.id)).toEqual([2]);
+    });
+  });
+
+  describe('Merge Provenance', () => {
+    const vector = new Float32Array(mockConfig.dimension).fill(0.6);
+
+    beforeEach(async () => {
+      await vectorStore.addMemory(createMockMemory(1, 'episodic', { vector, content: 'first draft', aiGeneratedTags: ['a'] }));
+      await vectorStore.addMemory(createMockMemory(2, 'episodic', { vector, content: 'second draft', aiGeneratedTags: ['b'] }));
+      await vectorStore['mergeMemoryGroup']([
+        await vectorStore['getMemory']('episodic', 1),
+        await vectorStore['getMemory']('episodic', 2)
+      ]);
+    });
+
+    it('should record the sources of each merge', () => {
+      const [record] = vectorStore.getMergeHistory('episodic', 1);
+      expect(record.sources).toEqual([{ id: 2, content: 'second draft', similarity: expect.any(Number) }]);
+      expect(record.original.content).toBe('first draft');
+      expect(vectorStore.getMergeHistory('episodic', 2)).toEqual([]);
+    });
+
+    it('should restore the originals on unmerge', async () => {
+      const restored = await vectorStore.unmerge('episodic', 1);
+
+      expect(restored.map(m => m.id)).toEqual([1, 2]);
+      expect((await vectorStore['getMemory']('episodic', 1)).content).toBe('first draft');
+      expect((await vectorStore['getMemory']('episodic', 2)).content).toBe('second draft');
+      expect(vectorStore.listArchived('episodic')).toHaveLength(0);
+      expect(await vectorStore.getNeighbors('episodic', 1, { relations: ['merged-from'] })).toHaveLength(0);
+      expect(vectorStore.getMergeHistory('episodic', 1)).toEqual([]);
+    });
+
+    it('should only undo the most recent merge', async () => {
+      await vectorStore.addMemory(createMockMemory(3, 'episodic', { vector, content: 'third draft' }));
+      await vectorStore['mergeMemoryGroup']([
+        await vectorStore['getMemory']('episodic', 1),
+        await vectorStore['getMemory']('episodic', 3)
+      ]);
+      expect(vectorStore.getMergeHistory('episodic', 1)).toHaveLength(2);
+
+      await vectorStore.unmerge('episodic', 1);
+      expect((await vectorStore['getMemory']('episodic', 1)).content).toBe('first draft | second draft');
+      expect(vectorStore.listArchived('episodic').map(a => a.memory.id)).toEqual([2]);
+      await expect(vectorStore.unmerge('episodic', 3)).rejects.toThrow('no merge history');
     });
   });
 
@@ -218,19 +966,24 @@ describe('EnhancedVectorStore', () => {
   });
 
   describe('Persistence', () => {
+    let storePath: string;
+
+    beforeEach(() => {
+      storePath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'vector-store-')), 'store');
+    });
+
     it('should save and load state with telemetry correctly', async () => {
       const memory = createMockMemory(1);
       await vectorStore.addMemory(memory);
-      await vectorStore.save('test-store');
+      await vectorStore.save(storePath);
 
       const newVectorStore = new EnhancedVectorStore(
         mockConfig.dimension,
         mockConfig.maxElements,
-        mockConfig.embeddingEndpoint,
-        mockConfig.apiKey
+        embeddingProvider
       );
 
-      await newVectorStore.load('test-store');
+      await newVectorStore.load(storePath);
       const clusters = await newVectorStore.getAllClusters('episodic');
       expect(clusters).toHaveLength(1);
       expect(clusters[0].metadata.size).toBe(1);
@@ -241,15 +994,15 @@ describe('EnhancedVectorStore', () => {
     });
 
     it('should handle corrupted save file gracefully', async () => {
-      jest.spyOn(require('fs').promises, 'readFile').mockRejectedValueOnce(new Error('Corrupted file'));
+      await vectorStore.save(storePath);
+      jest.spyOn(fs.promises, 'readFile').mockRejectedValueOnce(new Error('Corrupted file'));
       const newVectorStore = new EnhancedVectorStore(
         mockConfig.dimension,
         mockConfig.maxElements,
-        mockConfig.embeddingEndpoint,
-        mockConfig.apiKey
+        embeddingProvider
       );
 
-      await expect(newVectorStore.load('corrupted-store')).rejects.toThrow('Error loading vector store');
+      await expect(newVectorStore.load(storePath)).rejects.toThrow('Error loading vector store');
       expect(await newVectorStore.getAllClusters('episodic')).toHaveLength(0); // Should still function
     });
   });
@@ -261,39 +1014,17 @@ describe('EnhancedVectorStore', () => {
     });
 
     it('should recover from maintenance failure', async () => {
-      jest.spyOn(vectorStore, 'applyMemoryDecay').mockRejectedValueOnce(new Error('Decay error'));
-      await vectorStore['runMaintenance'](); // Should not crash
+      jest.spyOn(console, 'error').mockImplementation(() => undefined);
+      await vectorStore.addMemory(createMockMemory(1));
+      vectorStore.registerDecayModel({ name: 'failing', decay: () => { throw new Error('Decay error'); } });
+      vectorStore.configureDecay({ model: 'failing' });
+
+      const report = await vectorStore.maintenance.runNow(); // Should not crash
+      expect(report.error?.message).toBe('Decay error');
 
       const memory = createMockMemory(2);
       await vectorStore.addMemory(memory);
-      expect(await vectorStore.getAllClusters('episodic')).toHaveLength(1); // Still functional
+      expect(await vectorStore['getAllMemories']('episodic')).toHaveLength(2); // Still functional
     });
   });
 });
-
-// Mock fs for persistence tests
-jest.mock('fs', () => ({
-  promises: {
-    writeFile: jest.fn().mockResolvedValue(undefined),
-    readFile: jest.fn().mockResolvedValue(JSON.stringify({ stores: {}, anomalyLog: [] })),
-  },
-}));
-
-// Type definition for EnhancedMemory
-interface EnhancedMemory {
-  id: number;
-  type: MemoryType;
-  content: string;
-  vector: Float32Array;
-  timestamp: number;
-  strength: number;
-  emotions?: string[];
-  lastAccessed: number;
-  accessCount: number;
-  decayRate: number;
-  importance: number;
-  predictedRelevance: number;
-  aiGeneratedTags: string[];
-  semanticContext: string[];
-  neuralWeights?: Float32Array;
-}
@@ -0,0 +1,64 @@
+// src/tests/writeAheadLog.test.ts
+
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { WriteAheadLog, writeFileAtomic } from '../lib/writeAheadLog';
+
+describe('WriteAheadLog', () => {
+  let logPath: string;
+  let log: WriteAheadLog;
+
+  beforeEach(() => {
+    logPath = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'wal-')), 'store_wal');
+    log = new WriteAheadLog(logPath, { fsync: false });
+  });
+
+  it('should number appended entries and read them back in order', async () => {
+    await Promise.all([
+      log.append('add', { id: 1 }),
+      log.append('update', { id: 1 }),
+      log.append('delete', { id: 1 }),
+    ]);
+
+    const entries = await new WriteAheadLog(logPath).read();
+    expect(entries.map(e => [e.seq, e.op])).toEqual([[1, 'add'], [2, 'update'], [3, 'delete']]);
+  });
+
+  it('should only return entries after a checkpoint sequence and continue numbering', async () => {
+    for (let i = 0; i < 3; i++) await log.append('add', { id: i });
+
+    const reopened = new WriteAheadLog(logPath);
+    expect((await reopened.read(2)).map(e => e.seq)).toEqual([3]);
+    expect((await reopened.append('add', { id: 3 })).seq).toBe(4);
+  });
+
+  it('should ignore a torn final line', async () => {
+    await log.append('add', { id: 1 });
+    fs.appendFileSync(logPath, '{"seq":2,"op":"ad');
+
+    expect(await new WriteAheadLog(logPath).read()).toHaveLength(1);
+  });
+
+  it('should drop entries covered by a checkpoint on truncate', async () => {
+    for (let i = 0; i < 3; i++) await log.append('add', { id: i });
+    await log.truncate(2);
+
+    expect((await new WriteAheadLog(logPath).read()).map(e => e.seq)).toEqual([3]);
+  });
+
+  it('should treat a missing log as empty', async () => {
+    expect(await log.read()).toEqual([]);
+    expect(log.sequence).toBe(0);
+  });
+
+  it('should replace files atomically without leaving temp files', async () => {
+    const target = path.join(path.dirname(logPath), 'pointer');
+    await writeFileAtomic(target, 'first');
+    await writeFileAtomic(target, 'second');
+
+    expect(fs.readFileSync(target, 'utf-8')).toBe('second');
+    expect(fs.existsSync(`${target}.tmp`)).toBe(false);
+  });
+});
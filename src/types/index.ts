@@ -16,6 +16,7 @@ export interface ClusterPoint {
   references: Array<{
     id: number;
     content: string;
+    relation?: 'similar-to' | 'caused-by' | 'follows' | 'contradicts' | 'merged-from';
   }>;
 }
 